@@ -1,24 +1,93 @@
 #!/usr/bin/env tsx
 
-import { Command } from '@commander-js/extra-typings'
+import { resolve } from 'node:path'
+import { Command, CommanderError } from '@commander-js/extra-typings'
 
+import { allowanceCommand } from '../src/commands/allowance'
 import { balanceCommand } from '../src/commands/balance'
+import { broadcastCommand } from '../src/commands/broadcast'
 import { chainsCommand } from '../src/commands/chains'
+import { configCommand } from '../src/commands/config'
+import { contactsCommand } from '../src/commands/contacts'
+import { keysCommand } from '../src/commands/keys'
+import { portfolioCommand } from '../src/commands/portfolio'
 import { quoteCommand } from '../src/commands/quote'
+import { revokeCommand } from '../src/commands/revoke'
 import { statusCommand } from '../src/commands/status'
 import { transferCommand } from '../src/commands/transfer'
+import { transferBatchCommand } from '../src/commands/transfer-batch'
+import { txCommand } from '../src/commands/tx'
 import { updateChainsCommand } from '../src/commands/update-chains'
+import { walletsCommand } from '../src/commands/wallets'
+import { CONFIG_ENV_VAR } from '../src/lib/chains'
+import { EXIT_CODES } from '../src/lib/errors'
+import { applyProfileDefaults, getActiveProfile, PROFILE_ENV_VAR } from '../src/lib/user-config'
+import { enableJsonOutput, exitWithCaughtError, exitWithError, isJsonOutput } from '../src/utils/output'
 
 const program = new Command()
   .name('pyusd-lz')
   .description('CLI tool for cross-chain PYUSD transfers via Stargate')
   .version('0.0.0')
+  .option('--json', 'Write the result as a single JSON document to stdout (progress goes to stderr)')
+  .option('--config <file>', `Chain config file (default: $${CONFIG_ENV_VAR} or the bundled config/chains.json)`)
+  .option('--profile <name>', `Profile of default options from the user config (default: $${PROFILE_ENV_VAR} or "default")`)
+
+// --config and --profile override the environment; the chain registry is only loaded on first use
+program.hook('preAction', (_program, actionCommand) => {
+  const { config, profile } = program.opts()
+  if (config) {
+    process.env[CONFIG_ENV_VAR] = resolve(config)
+  }
+  if (profile) {
+    process.env[PROFILE_ENV_VAR] = profile
+  }
+
+  // The config command edits profiles, so it runs without one applied
+  if (actionCommand.parent?.name() !== 'config') {
+    applyProfileDefaults(actionCommand, getActiveProfile())
+  }
+})
 
 program.addCommand(balanceCommand)
+program.addCommand(portfolioCommand)
 program.addCommand(quoteCommand)
 program.addCommand(transferCommand)
+program.addCommand(transferBatchCommand)
+program.addCommand(broadcastCommand)
+program.addCommand(allowanceCommand)
+program.addCommand(revokeCommand)
+program.addCommand(txCommand)
 program.addCommand(statusCommand)
 program.addCommand(chainsCommand)
 program.addCommand(updateChainsCommand)
+program.addCommand(configCommand)
+program.addCommand(contactsCommand)
+program.addCommand(keysCommand)
+program.addCommand(walletsCommand)
+
+// Enabled before parsing so argument errors are reported as JSON too
+if (process.argv.includes('--json')) {
+  enableJsonOutput()
+}
+
+// Throw instead of exiting on argument errors, so they get an exit code and JSON error
+function overrideExits(command: Command<unknown[], Record<string, unknown>>): void {
+  command.exitOverride()
+  command.commands.forEach((subcommand) => overrideExits(subcommand as Command<unknown[], Record<string, unknown>>))
+}
+overrideExits(program as Command<unknown[], Record<string, unknown>>)
 
-program.parse()
+program.parseAsync().catch((error: unknown) => {
+  if (error instanceof CommanderError) {
+    // Help and version output exit with 0
+    if (error.exitCode === 0) {
+      process.exit(0)
+    }
+    // Commander has already printed the message
+    if (!isJsonOutput()) {
+      process.exit(EXIT_CODES.INVALID_INPUT)
+    }
+    exitWithError('INVALID_INPUT', error.message.replace(/^error: /, ''))
+  }
+  exitWithCaughtError(error, 'ERROR')
+})
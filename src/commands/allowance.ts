@@ -0,0 +1,77 @@
+import { Command } from '@commander-js/extra-typings'
+import { maxUint256 } from 'viem'
+
+import { getSpenderAllowances } from '../lib/allowances'
+import { getChainConfig, isEvmChain } from '../lib/chains'
+import { createPublicClientForChain } from '../lib/client'
+import { resolveAddress } from '../lib/input-validation'
+import { parseAccountIndex } from '../lib/signers'
+import { formatAmount, PYUSD_DECIMALS } from '../utils/format'
+import { exitWithCaughtError, exitWithError, printJsonResult } from '../utils/output'
+
+export const allowanceCommand = new Command('allowance')
+  .description('List PYUSD allowances granted to known Stargate / OFT contracts')
+  .argument('<chain>', 'EVM chain to check (e.g., ethereum, arbitrum, avalanche)')
+  .option('-a, --address <address>', 'Owner address (defaults to address derived from PRIVATE_KEY)')
+  .option('--account <index>', 'HD account index derived from MNEMONIC', parseAccountIndex)
+  .option('--all', 'Also list spenders with a zero allowance', false)
+  .action(async (chain, options) => {
+    const chainConfig = getChainConfig(chain)
+    if (!isEvmChain(chainConfig)) {
+      exitWithError('INVALID_INPUT', `allowances can only be checked on EVM chains (${chainConfig.name} is ${chainConfig.chainType})`)
+    }
+
+    const owner = resolveAddress({ address: options.address, account: options.account })
+
+    console.log('')
+    console.log(`PYUSD Allowances on ${chainConfig.name}`)
+    console.log('─'.repeat(50))
+    console.log(`Owner:    ${owner}`)
+    console.log(`Token:    ${chainConfig.symbol} (${chainConfig.tokenAddress})`)
+    console.log('')
+
+    try {
+      const allowances = await getSpenderAllowances(createPublicClientForChain(chainConfig), chainConfig, owner)
+      const shown = options.all ? allowances : allowances.filter(({ allowance }) => allowance > 0n)
+      printJsonResult({
+        chain: chainConfig.chainKey,
+        owner,
+        token: chainConfig.symbol,
+        tokenAddress: chainConfig.tokenAddress,
+        decimals: PYUSD_DECIMALS,
+        allowances: shown.map(({ spender, allowance, source }) => ({
+          spender,
+          allowance: allowance.toString(),
+          unlimited: allowance === maxUint256,
+          source,
+        })),
+      })
+
+      if (allowances.length === 0) {
+        console.log('No known spenders for this chain.')
+        console.log(`Configure the OFT adapter with "oftAddress" in config/chains.json or OFT_${chainConfig.chainKey.toUpperCase()}.`)
+        console.log('')
+        return
+      }
+
+      if (shown.length === 0) {
+        console.log(`No allowances to the ${allowances.length} known spender(s).`)
+        console.log('')
+        return
+      }
+
+      console.log(`${'Spender'.padEnd(44)}${'Allowance'.padEnd(20)}Source`)
+      for (const { spender, allowance, source } of shown) {
+        const amount = allowance === maxUint256 ? 'unlimited' : `${formatAmount(allowance)} ${chainConfig.symbol}`
+        console.log(`${spender.padEnd(44)}${amount.padEnd(20)}${source === 'config' ? 'OFT adapter' : 'transfer history'}`)
+      }
+      console.log('')
+
+      if (shown.some(({ allowance }) => allowance > 0n)) {
+        console.log(`Revoke with: pyusd-lz revoke ${chainConfig.chainKey} <spender>`)
+        console.log('')
+      }
+    } catch (error) {
+      exitWithCaughtError(error, 'NETWORK_ERROR', `Failed to fetch allowances`)
+    }
+  })
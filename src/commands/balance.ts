@@ -1,108 +1,51 @@
 import { Command } from '@commander-js/extra-typings'
-import { erc20Abi } from 'viem'
 
-import { getChainConfig, isEvmChain, isSolanaChain } from '../lib/chains'
-import { createPublicClientForChain } from '../lib/client'
-import { resolveAddress } from '../lib/input-validation'
-import { getSolanaTokenBalance, isSolanaAddress } from '../lib/solana-client'
+import { type BridgeBalance, PyusdBridge } from '../lib/bridge'
+import { getChainConfig } from '../lib/chains'
+import { resolveAddressForChainType } from '../lib/input-validation'
+import { parseAccountIndex } from '../lib/signers'
 import { formatAmount } from '../utils/format'
+import { exitWithCaughtError, printJsonResult } from '../utils/output'
 
 export const balanceCommand = new Command('balance')
   .description('Check PYUSD balance on a chain')
   .argument('<chain>', 'Chain to check balance on (e.g., ethereum, arbitrum, polygon)')
   .option('-a, --address <address>', 'Address to check (defaults to address derived from PRIVATE_KEY)')
+  .option('--account <index>', 'HD account index derived from MNEMONIC', parseAccountIndex)
   .action(async (chain, options) => {
     const chainConfig = getChainConfig(chain)
 
-    // Handle Solana chains separately
-    if (isSolanaChain(chainConfig)) {
-      await handleSolanaBalance(chainConfig, options.address)
-      return
-    }
-
-    // Non-EVM chains (other than Solana) require explicit address
-    if (!isEvmChain(chainConfig) && !options.address) {
-      console.error(`Error: --address is required for ${chainConfig.name}`)
-      console.error(`This CLI currently only supports EVM private keys.`)
-      process.exit(1)
-    }
-
-    // Resolve address from flag or private key
-    const address = resolveAddress({ address: options.address })
-
-    const client = createPublicClientForChain(chain)
+    // Fall back to the address derived from the chain type's private key or MNEMONIC
+    const address = options.address || resolveAddressForChainType(chainConfig.chainType, options.account)
 
     console.log('')
     console.log(`Checking PYUSD balance on ${chainConfig.name}...`)
     console.log('')
 
     try {
-      // Read balance directly from the token contract
-      const balance = await client.readContract({
-        abi: erc20Abi,
-        address: chainConfig.tokenAddress,
-        functionName: 'balanceOf',
-        args: [address],
-      })
-
-      const formattedBalance = formatAmount(balance)
-
-      console.log(`Address:  ${address}`)
-      console.log(`Chain:    ${chainConfig.name}`)
-      console.log(`Token:    ${chainConfig.symbol}`)
-      console.log(`Balance:  ${formattedBalance} ${chainConfig.symbol}`)
-      console.log('')
+      printBalance(await new PyusdBridge().getBalance(chainConfig.chainKey, address))
     } catch (error) {
-      if (error instanceof Error) {
-        console.error(`Failed to fetch balance: ${error.message}`)
-      }
-      process.exit(1)
+      exitWithCaughtError(error, 'NETWORK_ERROR', 'Failed to fetch balance')
     }
   })
 
 /**
- * Handle balance check for Solana chains
+ * Print a balance, and write it as the JSON result
  */
-async function handleSolanaBalance(
-  chainConfig: ReturnType<typeof getChainConfig>,
-  addressOption?: string
-): Promise<void> {
-  // Solana requires explicit address (can't derive from EVM private key)
-  if (!addressOption) {
-    console.error(`Error: --address is required for ${chainConfig.name}`)
-    console.error(`Provide a Solana address (base58 encoded, e.g., HcctjqtSJxFmmphaKpbAJZwKawWMQ86GDS3w8AXk9uJL)`)
-    process.exit(1)
-  }
-
-  // Validate that it's a proper Solana address
-  if (!isSolanaAddress(addressOption)) {
-    console.error(`Error: "${addressOption}" is not a valid Solana address.`)
-    console.error(`Solana addresses are base58 encoded and typically 32-44 characters.`)
-    process.exit(1)
-  }
-
-  console.log('')
-  console.log(`Checking PYUSD balance on ${chainConfig.name}...`)
+function printBalance({ chainConfig, address, balance, decimals }: BridgeBalance): void {
+  console.log(`Address:  ${address}`)
+  console.log(`Chain:    ${chainConfig.name}`)
+  console.log(`Token:    ${chainConfig.symbol}`)
+  console.log(`Balance:  ${formatAmount(balance)} ${chainConfig.symbol}`)
   console.log('')
 
-  try {
-    const balance = await getSolanaTokenBalance(
-      chainConfig.rpcUrl,
-      addressOption,
-      chainConfig.tokenAddress
-    )
-
-    const formattedBalance = formatAmount(balance)
-
-    console.log(`Address:  ${addressOption}`)
-    console.log(`Chain:    ${chainConfig.name}`)
-    console.log(`Token:    ${chainConfig.symbol}`)
-    console.log(`Balance:  ${formattedBalance} ${chainConfig.symbol}`)
-    console.log('')
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(`Failed to fetch balance: ${error.message}`)
-    }
-    process.exit(1)
-  }
+  printJsonResult({
+    chain: chainConfig.chainKey,
+    chainType: chainConfig.chainType,
+    address,
+    token: chainConfig.symbol,
+    tokenAddress: chainConfig.tokenAddress,
+    balance: balance.toString(),
+    decimals,
+  })
 }
@@ -0,0 +1,110 @@
+import { Command } from '@commander-js/extra-typings'
+import type { Hex } from 'viem'
+
+import { resolveChainConfigsForTransfer } from '../lib/chains'
+import { createPublicClientForChain } from '../lib/client'
+import {
+  assembleSignedSolanaTransaction,
+  broadcastEvmTransaction,
+  broadcastSolanaTransaction,
+  readUnsignedTransfer,
+  type UnsignedTransferFile,
+  verifySignedEvmStep,
+  writeUnsignedTransfer,
+} from '../lib/offline-signing'
+import { createSolanaConnection } from '../lib/solana-client'
+import { parseAmount, PYUSD_DECIMALS, truncateAddress } from '../utils/format'
+import { exitWithError, printJsonResult } from '../utils/output'
+
+export const broadcastCommand = new Command('broadcast')
+  .description('Submit signed transactions from a transfer --export-unsigned file, in order')
+  .argument('<file>', 'Transaction file with each step\'s "signed" field filled in')
+  .action(async (filePath) => {
+    let file: UnsignedTransferFile
+    try {
+      file = readUnsignedTransfer(filePath)
+    } catch (error) {
+      exitWithError('INVALID_INPUT', error)
+    }
+
+    const { srcConfig, dstConfig } = resolveChainConfigsForTransfer(file.srcChainKey, file.dstChainKey)
+
+    console.log('')
+    console.log('Broadcasting Signed Transfer')
+    console.log('─'.repeat(50))
+    console.log(`From:       ${srcConfig.name} → ${dstConfig.name}`)
+    console.log(`Sender:     ${truncateAddress(file.srcAddress)}`)
+    console.log(`Recipient:  ${truncateAddress(file.dstAddress)}`)
+    console.log(`Amount:     ${file.amount} ${srcConfig.symbol}`)
+    console.log('')
+
+    const unsignedSteps = file.steps
+      .map((step, i) => ({ step, i }))
+      .filter(({ step }) => !step.txHash && !step.signed)
+    if (unsignedSteps.length > 0) {
+      exitWithError('INVALID_INPUT', `step(s) ${unsignedSteps.map(({ step, i }) => `${i + 1} (${step.type})`).join(', ')} have no "signed" payload`)
+    }
+
+    try {
+      for (let i = 0; i < file.steps.length; i++) {
+        const step = file.steps[i]
+        const label = `Step ${i + 1}/${file.steps.length} (${step.type})`
+
+        // Steps confirmed by an earlier run are skipped, so a failed broadcast can be re-run
+        if (step.txHash) {
+          console.log(`  ✓ ${label} already confirmed: ${step.txHash}`)
+          continue
+        }
+
+        console.log(`  → ${label}: submitting...`)
+        const onSubmitted = (hash: string) => console.log(`    Submitted: ${hash}`)
+
+        if (file.chainType === 'solana') {
+          const transaction = assembleSignedSolanaTransaction(step, step.signed!, file.srcAddress)
+          step.txHash = await broadcastSolanaTransaction(createSolanaConnection(srcConfig.rpcUrl), transaction, onSubmitted)
+        } else {
+          const signed = step.signed as Hex
+          await verifySignedEvmStep(step, signed, file.srcAddress)
+          step.txHash = await broadcastEvmTransaction(createPublicClientForChain(srcConfig), signed, onSubmitted)
+        }
+
+        writeUnsignedTransfer(filePath, file)
+        console.log(`  ✓ ${label} confirmed`)
+      }
+    } catch (error) {
+      console.log('')
+      exitWithError(
+        'TRANSACTION_FAILED',
+        `Broadcast failed: ${error instanceof Error ? error.message : error}`,
+        'Confirmed steps are recorded in the file; re-run broadcast to continue.'
+      )
+    }
+
+    const bridgeStep = file.steps.find((step) => step.type === 'bridge') ?? file.steps[file.steps.length - 1]
+
+    console.log('')
+    console.log('Results')
+    console.log('─'.repeat(50))
+    for (const step of file.steps) {
+      console.log(`${step.type} TX:   ${step.txHash}`)
+    }
+    console.log('')
+    console.log(`LayerZero:    https://layerzeroscan.com/tx/${bridgeStep.txHash}`)
+    console.log('')
+    console.log(`Status: Pending (track with: pyusd-lz status ${bridgeStep.txHash} --watch)`)
+    console.log('')
+
+    printJsonResult({
+      source: srcConfig.chainKey,
+      destination: dstConfig.chainKey,
+      sender: file.srcAddress,
+      recipient: file.dstAddress,
+      amount: parseAmount(file.amount),
+      dstAmount: file.dstAmount,
+      decimals: PYUSD_DECIMALS,
+      steps: file.steps.map((step) => ({ type: step.type, txHash: step.txHash })),
+      txHashes: file.steps.map((step) => step.txHash),
+      finalTxHash: bridgeStep.txHash,
+      scanUrl: `https://layerzeroscan.com/tx/${bridgeStep.txHash}`,
+    })
+  })
@@ -2,6 +2,7 @@ import { Command } from '@commander-js/extra-typings'
 
 import { getPyusdChains, getPyusd0Chains, getSupportedChains } from '../lib/chains'
 import type { ChainConfig } from '../types/index'
+import { isJsonOutput, printJsonResult } from '../utils/output'
 
 function printChainTable(title: string, chains: ChainConfig[]): void {
   console.log('')
@@ -26,6 +27,11 @@ export const chainsCommand = new Command('chains')
     const pyusdChains = getPyusdChains()
     const pyusd0Chains = getPyusd0Chains()
 
+    if (isJsonOutput()) {
+      printJsonResult({ pyusd: pyusdChains, pyusd0: pyusd0Chains })
+      return
+    }
+
     if (options.format === 'json') {
       console.log(JSON.stringify({ pyusd: pyusdChains, pyusd0: pyusd0Chains }, null, 2))
       return
@@ -0,0 +1,136 @@
+import { Command } from '@commander-js/extra-typings'
+
+import {
+  getProfileName,
+  getProfileValue,
+  getUserConfigPath,
+  loadUserConfig,
+  type Profile,
+  PROFILE_KEYS,
+  saveUserConfig,
+  setProfileValue,
+  unsetProfileValue,
+} from '../lib/user-config'
+import { exitWithCaughtError, exitWithError, isJsonOutput, printJsonResult } from '../utils/output'
+
+/**
+ * Format a setting the way `config set` accepts it
+ */
+function formatValue(value: unknown): string {
+  return Array.isArray(value) ? value.join(',') : String(value)
+}
+
+/**
+ * List a profile's settings as key/value pairs (e.g. rpc.arbitrum)
+ */
+function flattenProfile(profile: Profile): [string, unknown][] {
+  return Object.entries(profile).flatMap(([field, value]) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.entries(value).map(([subkey, subvalue]): [string, unknown] => [`${field}.${subkey}`, subvalue])
+      : [[field, value] as [string, unknown]]
+  )
+}
+
+const listCommand = new Command('list')
+  .description('List every profile and its settings')
+  .action(() => {
+    try {
+      const { profiles } = loadUserConfig()
+      const active = getProfileName()
+      printJsonResult({ path: getUserConfigPath(), activeProfile: active, profiles })
+
+      console.log('')
+      console.log(`Config: ${getUserConfigPath()}`)
+      console.log('')
+      if (Object.keys(profiles).length === 0) {
+        console.log('No profiles yet')
+        console.log('Add one with: pyusd-lz [--profile <name>] config set <key> <value>')
+        console.log('')
+        return
+      }
+
+      for (const [name, profile] of Object.entries(profiles)) {
+        console.log(`${name === active ? '→' : ' '} ${name}`)
+        console.log('─'.repeat(50))
+        for (const [key, value] of flattenProfile(profile)) {
+          console.log(`  ${key.padEnd(20)} ${formatValue(value)}`)
+        }
+        console.log('')
+      }
+    } catch (error) {
+      exitWithCaughtError(error, 'ERROR')
+    }
+  })
+
+const getCommand = new Command('get')
+  .description('Print a setting of the selected profile')
+  .argument('<key>', `Setting (${PROFILE_KEYS.join(', ')})`)
+  .action((key) => {
+    let value: unknown
+    try {
+      value = getProfileValue(loadUserConfig().profiles[getProfileName()] ?? {}, key)
+    } catch (error) {
+      exitWithCaughtError(error, 'ERROR')
+    }
+
+    if (value === undefined) {
+      exitWithError('NOT_FOUND', `"${key}" is not set in profile "${getProfileName()}"`)
+    }
+    if (isJsonOutput()) {
+      printJsonResult({ profile: getProfileName(), key, value })
+      return
+    }
+    console.log(formatValue(value))
+  })
+
+const setCommand = new Command('set')
+  .description('Set a setting of the selected profile (creates the profile if needed)')
+  .argument('<key>', `Setting (${PROFILE_KEYS.join(', ')})`)
+  .argument('<value>', 'Value (keystore takes a comma-separated list)')
+  .action((key, value) => {
+    try {
+      const config = loadUserConfig()
+      const name = getProfileName()
+      const profile = config.profiles[name] ?? {}
+      setProfileValue(profile, key, value)
+      config.profiles[name] = profile
+      saveUserConfig(config)
+
+      console.log(`✓ Set ${key} = ${formatValue(getProfileValue(profile, key))} in profile "${name}"`)
+      printJsonResult({ profile: name, key, value: getProfileValue(profile, key) })
+    } catch (error) {
+      exitWithCaughtError(error, 'ERROR', 'Failed to save config')
+    }
+  })
+
+const unsetCommand = new Command('unset')
+  .description('Remove a setting from the selected profile')
+  .argument('<key>', `Setting (${PROFILE_KEYS.join(', ')})`)
+  .action((key) => {
+    let removed: boolean
+    const name = getProfileName()
+    try {
+      const config = loadUserConfig()
+      const profile = config.profiles[name] ?? {}
+      removed = unsetProfileValue(profile, key)
+      if (removed) {
+        config.profiles[name] = profile
+        saveUserConfig(config)
+      }
+    } catch (error) {
+      exitWithCaughtError(error, 'ERROR', 'Failed to save config')
+    }
+
+    if (!removed) {
+      exitWithError('NOT_FOUND', `"${key}" is not set in profile "${name}"`)
+    }
+    console.log(`✓ Removed ${key} from profile "${name}"`)
+    printJsonResult({ profile: name, key })
+  })
+
+export const configCommand = new Command('config')
+  .description('Manage profiles of default options (select with --profile)')
+  .addCommand(listCommand)
+  .addCommand(getCommand)
+  .addCommand(setCommand)
+  .addCommand(unsetCommand)
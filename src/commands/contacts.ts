@@ -0,0 +1,84 @@
+import { Command } from '@commander-js/extra-typings'
+
+import { listContacts, removeContact, saveContact } from '../lib/contacts'
+import { getUserConfigPath } from '../lib/user-config'
+import { exitWithCaughtError, exitWithError, printJsonResult } from '../utils/output'
+
+const addCommand = new Command('add')
+  .description('Add a contact, or add addresses to an existing one')
+  .argument('<name>', 'Contact name (e.g., alice)')
+  .option('--evm <address>', 'EVM address')
+  .option('--solana <address>', 'Solana address')
+  .option('--tron <address>', 'Tron address')
+  .action((name, options) => {
+    if (!options.evm && !options.solana && !options.tron) {
+      exitWithError('INVALID_INPUT', 'Provide at least one of --evm, --solana or --tron')
+    }
+
+    try {
+      const { contact, created } = saveContact(name, { evm: options.evm, solana: options.solana, tron: options.tron })
+
+      console.log('')
+      console.log(`✓ ${created ? 'Added' : 'Updated'} contact "${name}"`)
+      for (const [chainType, address] of Object.entries(contact)) {
+        console.log(`  ${chainType.padEnd(8)} ${address}`)
+      }
+      console.log('')
+      printJsonResult({ name, created, addresses: contact })
+    } catch (error) {
+      exitWithCaughtError(error, 'ERROR', 'Failed to save contact')
+    }
+  })
+
+const listCommand = new Command('list')
+  .description('List contacts')
+  .action(() => {
+    let contacts: ReturnType<typeof listContacts>
+    try {
+      contacts = listContacts()
+    } catch (error) {
+      exitWithCaughtError(error, 'ERROR')
+    }
+    printJsonResult({ contacts })
+
+    console.log('')
+    if (Object.keys(contacts).length === 0) {
+      console.log(`No contacts in ${getUserConfigPath()}`)
+      console.log('Add one with: pyusd-lz contacts add <name> --evm <address>')
+      console.log('')
+      return
+    }
+
+    console.log(`${'Name'.padEnd(20)} ${'Type'.padEnd(8)} ${'Address'}`)
+    console.log('─'.repeat(80))
+    for (const [name, contact] of Object.entries(contacts)) {
+      Object.entries(contact).forEach(([chainType, address], i) => {
+        console.log(`${(i === 0 ? name : '').padEnd(20)} ${chainType.padEnd(8)} ${address}`)
+      })
+    }
+    console.log('')
+  })
+
+const removeCommand = new Command('remove')
+  .description('Remove a contact')
+  .argument('<name>', 'Contact name')
+  .action((name) => {
+    let removed: boolean
+    try {
+      removed = removeContact(name)
+    } catch (error) {
+      exitWithCaughtError(error, 'ERROR', 'Failed to remove contact')
+    }
+
+    if (!removed) {
+      exitWithError('NOT_FOUND', `Contact "${name}" not found`)
+    }
+    console.log(`✓ Removed contact "${name}"`)
+    printJsonResult({ name })
+  })
+
+export const contactsCommand = new Command('contacts')
+  .description('Manage the address book of recipients (use the names with --to)')
+  .addCommand(addCommand)
+  .addCommand(listCommand)
+  .addCommand(removeCommand)
@@ -0,0 +1,110 @@
+import { Command, Option } from '@commander-js/extra-typings'
+
+import { getKeystoreDir, importKeystoreFile, listKeystores, loadKeystore, saveKeystore } from '../lib/keystore'
+import { prompt, promptPassphrase } from '../lib/prompt'
+import { SIGNER_ENV_VARS } from '../lib/signers'
+import { exitWithError, isJsonOutput, printJsonResult } from '../utils/output'
+
+const importCommand = new Command('import')
+  .description('Encrypt a signing key into a named keystore')
+  .argument('<name>', 'Name for the keystore (e.g., treasury-evm)')
+  .addOption(new Option('-t, --type <type>', 'Key type').choices(['evm', 'solana', 'tron'] as const).default('evm' as const))
+  .option('--from-env', 'Read the key from PRIVATE_KEY / SOLANA_PRIVATE_KEY / TRON_PRIVATE_KEY', false)
+  .option('--file <path>', 'Import an existing V3 JSON keystore file (e.g., from geth or Foundry)')
+  .action(async (name, options) => {
+    try {
+      if (options.file) {
+        const passphrase = await promptPassphrase(`Passphrase for ${options.file}: `)
+        const entry = importKeystoreFile(name, options.file, passphrase)
+        console.log('')
+        console.log(`✓ Imported ${entry.chainType} keystore "${entry.name}"`)
+        console.log(`  Address: ${entry.address}`)
+        console.log(`  Saved to: ${entry.path}`)
+        console.log('')
+        printJsonResult({ name: entry.name, chainType: entry.chainType, address: entry.address, path: entry.path })
+        return
+      }
+
+      const envVar = SIGNER_ENV_VARS[options.type]
+      const privateKey = options.fromEnv
+        ? process.env[envVar]
+        : await prompt(`${options.type.toUpperCase()} private key: `, true)
+
+      if (!privateKey) {
+        exitWithError('INVALID_INPUT', options.fromEnv ? `${envVar} environment variable is not set` : 'No key entered')
+      }
+
+      const passphrase = await promptPassphrase('New passphrase: ')
+      if (!process.env.PYUSD_LZ_PASSPHRASE) {
+        const confirmation = await prompt('Confirm passphrase: ', true)
+        if (confirmation !== passphrase) {
+          exitWithError('INVALID_INPUT', 'Passphrases do not match')
+        }
+      }
+
+      if (!passphrase) {
+        exitWithError('INVALID_INPUT', 'Passphrase cannot be empty')
+      }
+
+      const entry = saveKeystore(name, options.type, privateKey, passphrase)
+
+      console.log('')
+      console.log(`✓ Saved ${entry.chainType} keystore "${entry.name}"`)
+      console.log(`  Address: ${entry.address}`)
+      console.log(`  Saved to: ${entry.path}`)
+      console.log('')
+      if (options.fromEnv) {
+        console.log(`You can now remove ${envVar} from your environment and use --keystore ${entry.name}`)
+        console.log('')
+      }
+      printJsonResult({ name: entry.name, chainType: entry.chainType, address: entry.address, path: entry.path })
+    } catch (error) {
+      exitWithError('ERROR', `Failed to import key: ${error instanceof Error ? error.message : error}`)
+    }
+  })
+
+const listCommand = new Command('list')
+  .description('List stored keystores')
+  .action(() => {
+    const entries = listKeystores()
+    printJsonResult({
+      keystores: entries.map((entry) => ({ name: entry.name, chainType: entry.chainType, address: entry.address, path: entry.path })),
+    })
+
+    console.log('')
+    if (entries.length === 0) {
+      console.log(`No keystores found in ${getKeystoreDir()}`)
+      console.log('Add one with: pyusd-lz keys import <name>')
+      console.log('')
+      return
+    }
+
+    console.log(`${'Name'.padEnd(20)} ${'Type'.padEnd(8)} ${'Address'}`)
+    console.log('─'.repeat(80))
+    for (const entry of entries) {
+      console.log(`${entry.name.padEnd(20)} ${entry.chainType.padEnd(8)} ${entry.address}`)
+    }
+    console.log('')
+  })
+
+const exportAddressCommand = new Command('export-address')
+  .description('Print the address of a stored keystore (no passphrase needed)')
+  .argument('<name>', 'Keystore name')
+  .action((name) => {
+    try {
+      const { entry } = loadKeystore(name)
+      if (isJsonOutput()) {
+        printJsonResult({ name: entry.name, chainType: entry.chainType, address: entry.address })
+        return
+      }
+      console.log(entry.address)
+    } catch (error) {
+      exitWithError('NOT_FOUND', error)
+    }
+  })
+
+export const keysCommand = new Command('keys')
+  .description('Manage encrypted signing keys')
+  .addCommand(importCommand)
+  .addCommand(listCommand)
+  .addCommand(exportAddressCommand)
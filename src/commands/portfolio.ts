@@ -0,0 +1,110 @@
+import { Command } from '@commander-js/extra-typings'
+
+import { getPortfolioBalances } from '../lib/balances'
+import { getSupportedChains } from '../lib/chains'
+import { MissingKeyError } from '../lib/errors'
+import { resolveAddressForChainType } from '../lib/input-validation'
+import { parseAccountIndex } from '../lib/signers'
+import type { ChainType } from '../types/index'
+import { formatAmount, PYUSD_DECIMALS, truncateAddress } from '../utils/format'
+import { exitWithCaughtError, exitWithError, printJsonResult } from '../utils/output'
+
+const CHAIN_TYPES: ChainType[] = ['evm', 'solana', 'tron']
+
+export const portfolioCommand = new Command('portfolio')
+  .description('Check PYUSD/PYUSD0 balances on every configured chain')
+  .option('--evm <address>', 'EVM address (defaults to address derived from PRIVATE_KEY or MNEMONIC)')
+  .option('--solana <address>', 'Solana address (defaults to address derived from SOLANA_PRIVATE_KEY or MNEMONIC)')
+  .option('--tron <address>', 'Tron address (defaults to address derived from TRON_PRIVATE_KEY or MNEMONIC)')
+  .option('--account <index>', 'HD account index derived from MNEMONIC', parseAccountIndex)
+  .action(async (options) => {
+    // Resolve one address per chain type (flag, then key or mnemonic, then profile); chain types without one are skipped
+    const addresses: Partial<Record<ChainType, string>> = { evm: options.evm, solana: options.solana, tron: options.tron }
+    for (const chainType of CHAIN_TYPES) {
+      if (addresses[chainType]) {
+        continue
+      }
+      try {
+        addresses[chainType] = resolveAddressForChainType(chainType, options.account)
+      } catch (error) {
+        if (!(error instanceof MissingKeyError)) {
+          exitWithCaughtError(error, 'INVALID_INPUT', `Failed to derive the ${chainType} address`)
+        }
+      }
+    }
+
+    if (!addresses.evm && !addresses.solana && !addresses.tron) {
+      exitWithError(
+        'INVALID_INPUT',
+        'Provide at least one of --evm, --solana or --tron',
+        '       (or set PRIVATE_KEY, SOLANA_PRIVATE_KEY, TRON_PRIVATE_KEY or MNEMONIC)'
+      )
+    }
+
+    console.log('')
+    console.log('Checking PYUSD balances on all chains...')
+    console.log('')
+
+    const entries = await getPortfolioBalances(getSupportedChains(), addresses)
+
+    console.log(
+      `${'Chain'.padEnd(16)} ${'Token'.padEnd(8)} ${'Address'.padEnd(16)} ${'Balance'.padStart(20)}`,
+    )
+    console.log('─'.repeat(80))
+
+    const subtotals = new Map<string, bigint>()
+    let failures = 0
+
+    for (const entry of entries) {
+      const { chainConfig } = entry
+      const address = entry.address ? truncateAddress(entry.address) : '-'
+
+      let balance: string
+      if (!entry.address) {
+        balance = '(no address)'
+      } else if (entry.error !== undefined || entry.balance === undefined) {
+        balance = '(error)'
+        failures++
+      } else {
+        balance = formatAmount(entry.balance)
+        subtotals.set(chainConfig.symbol, (subtotals.get(chainConfig.symbol) ?? 0n) + entry.balance)
+      }
+
+      console.log(
+        `${chainConfig.chainKey.padEnd(16)} ${chainConfig.symbol.padEnd(8)} ${address.padEnd(16)} ${balance.padStart(20)}`,
+      )
+    }
+
+    console.log('─'.repeat(80))
+
+    let total = 0n
+    for (const [symbol, subtotal] of subtotals) {
+      console.log(`${`Subtotal ${symbol}`.padEnd(42)} ${formatAmount(subtotal).padStart(20)}`)
+      total += subtotal
+    }
+    console.log(`${'Total'.padEnd(42)} ${formatAmount(total).padStart(20)}`)
+    console.log('')
+
+    // Report failed chains without aborting the whole lookup
+    if (failures > 0) {
+      console.log(`Failed to fetch ${failures} chain(s):`)
+      for (const entry of entries.filter((e) => e.error !== undefined)) {
+        console.log(`  ${entry.chainConfig.chainKey}: ${entry.error}`)
+      }
+      console.log('')
+    }
+
+    printJsonResult({
+      decimals: PYUSD_DECIMALS,
+      balances: entries.map((entry) => ({
+        chain: entry.chainConfig.chainKey,
+        chainType: entry.chainConfig.chainType,
+        token: entry.chainConfig.symbol,
+        address: entry.address ?? null,
+        balance: entry.balance?.toString() ?? null,
+        error: entry.error,
+      })),
+      subtotals: Object.fromEntries([...subtotals].map(([symbol, subtotal]) => [symbol, subtotal.toString()])),
+      total: total.toString(),
+    })
+  })
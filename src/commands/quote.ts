@@ -1,83 +1,140 @@
 import { Command } from '@commander-js/extra-typings'
 
+import { type BridgeQuote, PyusdBridge } from '../lib/bridge'
 import { isEvmChain, resolveChainConfigsForTransfer } from '../lib/chains'
-import { resolveAddress } from '../lib/input-validation'
-import { calculateMinAmount, fetchStargateQuote } from '../lib/stargate'
-import { formatAmount, parseAmount } from '../utils/format'
+import { resolveRecipient } from '../lib/contacts'
+import { getQuoteCostBreakdown } from '../lib/costs'
+import { resolveAddress, resolveAddressForChainType } from '../lib/input-validation'
+import { planRoute } from '../lib/routing'
+import { parseAccountIndex } from '../lib/signers'
+import { calculateMinAmount, getQuoteRouteName } from '../lib/stargate'
+import { getProfileRecipient } from '../lib/user-config'
+import { printCostBreakdown, printQuoteComparison, printRoutePlan } from '../utils/display'
+import { formatAmount, parseAmount, PYUSD_DECIMALS } from '../utils/format'
+import { exitWithCaughtError, exitWithError, printJsonResult } from '../utils/output'
 
 export const quoteCommand = new Command('quote')
   .description('Get a fee quote for a PYUSD cross-chain transfer via Stargate')
   .argument('<source>', 'Source chain (e.g., ethereum, arbitrum, avalanche)')
   .argument('<destination>', 'Destination chain')
   .argument('<amount>', 'Amount of PYUSD to transfer')
-  .option('-a, --address <address>', 'Sender address (or use PRIVATE_KEY env var)')
-  .option('--to <address>', 'Recipient address on destination chain (defaults to sender)')
+  .option('-a, --address <address>', 'Sender address (or use PRIVATE_KEY env var, or the profile sender)')
+  .option('--account <index>', 'HD account index derived from MNEMONIC', parseAccountIndex)
+  .option('--to <address|contact>', 'Recipient address or contact name (defaults to the profile recipient, then the sender)')
   .option('--slippage <percent>', 'Slippage tolerance in percent', '0.5')
+  .option('--all', 'Compare every route Stargate returns', false)
+  .option('--route <name|index>', 'Show a specific route instead of the one that delivers the most')
+  .option('--usd', 'Value native costs in USD using Chainlink price feeds', false)
   .action(async (source, destination, amount, options) => {
     const { srcConfig, dstConfig } = resolveChainConfigsForTransfer(source, destination)
 
-    // Non-EVM chains require explicit address (can't derive from EVM private key)
-    if (!isEvmChain(srcConfig) && !options.address) {
-      console.error(`Error: --address is required for ${srcConfig.name}`)
-      console.error(`This CLI currently only supports EVM private keys.`)
-      process.exit(1)
-    }
-
     // Resolve sender/recipient address (could be hex, base58, etc. depending on chain)
-    const senderAddress = options.address || resolveAddress({})
-    const recipientAddress = options.to || senderAddress
+    const senderAddress = options.address || resolveAddressForChainType(srcConfig.chainType, options.account)
+    // --to may name a contact, resolved to its address for the destination's chain type
+    const recipient = options.to ? resolveRecipient(options.to, dstConfig.chainType) : undefined
+    const recipientAddress = recipient?.address || getProfileRecipient(dstConfig.chainType) || senderAddress
 
     // Calculate amounts in base units
     const amountLD = parseAmount(amount)
     const slippagePercent = Number.parseFloat(options.slippage)
     const minAmountLD = BigInt(calculateMinAmount(amountLD.toString(), slippagePercent))
 
+    // Fields shared by every JSON result
+    const request = {
+      source: srcConfig.chainKey,
+      destination: dstConfig.chainKey,
+      sender: senderAddress,
+      recipient: recipientAddress,
+      recipientContact: recipient?.contact,
+      amount: amountLD.toString(),
+      minAmount: minAmountLD.toString(),
+      decimals: PYUSD_DECIMALS,
+    }
+
     console.log('')
     console.log('PYUSD Transfer Quote (via Stargate)')
     console.log('─'.repeat(50))
     console.log(`Source:         ${srcConfig.name} (${srcConfig.symbol})`)
     console.log(`Destination:    ${dstConfig.name} (${dstConfig.symbol})`)
     console.log(`Sender:         ${senderAddress}`)
-    console.log(`Recipient:      ${recipientAddress}`)
+    console.log(`Recipient:      ${recipient?.contact ? `${recipient.contact} (${recipientAddress})` : recipientAddress}`)
     console.log(`Amount:         ${amount} ${srcConfig.symbol}`)
     console.log('')
 
-    try {
-      // Fetch quote from Stargate API
-      console.log('Fetching quote from Stargate...')
-      console.log('')
+    // Cross-mesh transfers are quoted leg by leg through the hub chain
+    const plan = planRoute(srcConfig, dstConfig)
+    if (plan.isMultiHop && (options.all || options.route)) {
+      exitWithError('INVALID_INPUT', '--all and --route are not supported for multi-hop routes')
+    }
+
+    console.log(`Fetching ${plan.isMultiHop ? 'multi-hop quote' : 'quote'} from Stargate...`)
+    console.log('')
 
-      const quoteResult = await fetchStargateQuote({
-        srcToken: srcConfig.tokenAddress,
-        dstToken: dstConfig.tokenAddress,
-        srcAddress: senderAddress,
-        dstAddress: recipientAddress,
-        srcChainKey: srcConfig.chainKey,
-        dstChainKey: dstConfig.chainKey,
-        srcAmount: amountLD.toString(),
-        dstAmountMin: minAmountLD.toString(),
+    let result: BridgeQuote
+    try {
+      result = await new PyusdBridge().quote({
+        source: srcConfig.chainKey,
+        destination: dstConfig.chainKey,
+        amount: amountLD,
+        sender: senderAddress,
+        recipient: recipientAddress,
+        // The hub chain is EVM, so funds are held by an EVM address between legs
+        intermediateAddress: plan.isMultiHop && !isEvmChain(srcConfig) && !isEvmChain(dstConfig)
+          ? resolveAddress({ account: options.account })
+          : undefined,
+        slippagePercent,
+        route: options.route,
       })
+    } catch (error) {
+      console.error('─'.repeat(50))
+      exitWithCaughtError(error, 'QUOTE_UNAVAILABLE', 'Failed to get quote')
+    }
 
-      if (quoteResult.error) {
-        console.error('─'.repeat(50))
-        console.error(`Error: ${quoteResult.error}`)
-        console.error('')
-        process.exit(1)
+    try {
+      if (result.isMultiHop) {
+        printRoutePlan(result)
+        printJsonResult({
+          ...request,
+          multiHop: true,
+          srcAmount: result.legs[0].quote.srcAmount,
+          dstAmount: result.dstAmount.toString(),
+          legs: result.legs.map((leg) => ({
+            source: leg.srcConfig.chainKey,
+            destination: leg.dstConfig.chainKey,
+            amount: leg.amountLD.toString(),
+            minAmount: leg.minAmountLD.toString(),
+            quote: leg.quote,
+          })),
+        })
+        return
       }
 
-      if (!quoteResult.bestQuote) {
-        console.error('─'.repeat(50))
-        console.error('Error: No quote available')
-        console.error('')
-        process.exit(1)
+      const quotes = result.alternatives
+      if (options.all) {
+        const costs = await Promise.all(
+          quotes.map((quote) => getQuoteCostBreakdown(srcConfig, quote, senderAddress, { usd: options.usd }))
+        )
+        printQuoteComparison(quotes, srcConfig, dstConfig, costs, result.nativeUsdPrice)
+        printJsonResult({
+          ...request,
+          multiHop: false,
+          nativeUsdPrice: result.nativeUsdPrice ?? null,
+          quotes: quotes.map((quote, i) => ({ route: getQuoteRouteName(quote), quote, costs: costs[i] })),
+        })
+        return
       }
 
-      const quote = quoteResult.bestQuote
+      const quote = result.legs[0].quote
 
       // Display quote details
       console.log('Quote Details')
       console.log('─'.repeat(50))
 
+      if (quotes.length > 1 || options.route) {
+        const rank = quotes.indexOf(quote) + 1
+        console.log(`Route:           ${getQuoteRouteName(quote)} (${rank} of ${quotes.length}, see --all)`)
+      }
+
       // Parse amounts from quote response
       const srcAmountDisplay = formatAmount(BigInt(quote.srcAmount))
       const dstAmountDisplay = formatAmount(BigInt(quote.dstAmount))
@@ -100,10 +157,21 @@ export const quoteCommand = new Command('quote')
       }
 
       console.log('')
+
+      const costs = await getQuoteCostBreakdown(srcConfig, quote, senderAddress, { usd: options.usd })
+      printCostBreakdown(costs, srcConfig, options.usd)
+
+      printJsonResult({
+        ...request,
+        multiHop: false,
+        route: getQuoteRouteName(quote),
+        srcAmount: quote.srcAmount,
+        dstAmount: quote.dstAmount,
+        protocolFee: feeBigInt.toString(),
+        quote,
+        costs,
+      })
     } catch (error) {
-      if (error instanceof Error) {
-        console.error(`Failed to get quote: ${error.message}`)
-      }
-      process.exit(1)
+      exitWithCaughtError(error, 'QUOTE_UNAVAILABLE', `Failed to get quote`)
     }
   })
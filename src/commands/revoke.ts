@@ -0,0 +1,85 @@
+import { Command } from '@commander-js/extra-typings'
+import { type Address, erc20Abi, isAddress } from 'viem'
+
+import { buildRevokeTransaction } from '../lib/allowances'
+import { getChainConfig, isEvmChain } from '../lib/chains'
+import { createPublicClientForChain, createWalletClientForChain, getAddressFromPrivateKey } from '../lib/client'
+import { RECEIPT_TIMEOUT_MS } from '../lib/fees'
+import { collectKeystoreNames, describeSignerSource, loadSignerKey, parseAccountIndex } from '../lib/signers'
+import { formatAmount } from '../utils/format'
+import { exitWithCaughtError, exitWithError, printJsonResult } from '../utils/output'
+
+export const revokeCommand = new Command('revoke')
+  .description('Set a spender\'s PYUSD allowance to zero')
+  .argument('<chain>', 'EVM chain the allowance was granted on')
+  .argument('<spender>', 'Spender address (see: pyusd-lz allowance <chain>)')
+  .option('-k, --keystore <name>', 'Sign with an encrypted keystore', collectKeystoreNames, [] as string[])
+  .option('--account <index>', 'HD account index derived from MNEMONIC', parseAccountIndex)
+  .action(async (chain, spender, options) => {
+    const chainConfig = getChainConfig(chain)
+    if (!isEvmChain(chainConfig)) {
+      exitWithError('INVALID_INPUT', `allowances can only be revoked on EVM chains (${chainConfig.name} is ${chainConfig.chainType})`)
+    }
+
+    if (!isAddress(spender)) {
+      exitWithError('INVALID_INPUT', `"${spender}" is not a valid address`)
+    }
+
+    let privateKey: string | undefined
+    try {
+      privateKey = await loadSignerKey('evm', options.keystore, options.account)
+    } catch (error) {
+      exitWithError('ERROR', error)
+    }
+    if (!privateKey) {
+      exitWithError('SIGNER_REQUIRED', `${describeSignerSource('evm')} is required to revoke an allowance`)
+    }
+
+    const owner = getAddressFromPrivateKey(privateKey as `0x${string}`)
+    const publicClient = createPublicClientForChain(chainConfig)
+    const walletClient = createWalletClientForChain(chainConfig, privateKey as `0x${string}`)
+
+    console.log('')
+    console.log(`Revoke PYUSD Allowance on ${chainConfig.name}`)
+    console.log('─'.repeat(50))
+    console.log(`Owner:    ${owner}`)
+    console.log(`Spender:  ${spender}`)
+    console.log('')
+
+    try {
+      const allowance = await publicClient.readContract({
+        address: chainConfig.tokenAddress,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [owner, spender as Address],
+      })
+
+      if (allowance === 0n) {
+        console.log('✓ Allowance is already zero, nothing to revoke.')
+        console.log('')
+        printJsonResult({ chain: chainConfig.chainKey, owner, spender, previousAllowance: allowance, revoked: false })
+        return
+      }
+
+      console.log(`Current allowance: ${formatAmount(allowance)} ${chainConfig.symbol}`)
+      console.log('→ Submitting approve(spender, 0)...')
+
+      const hash = await walletClient.sendTransaction({
+        account: walletClient.account!,
+        chain: walletClient.chain,
+        ...buildRevokeTransaction(chainConfig, spender as Address),
+      })
+      console.log(`  Submitted: ${hash}`)
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS })
+      if (receipt.status === 'reverted') {
+        throw new Error(`Transaction ${hash} reverted`)
+      }
+
+      console.log('✓ Allowance revoked')
+      console.log('')
+      printJsonResult({ chain: chainConfig.chainKey, owner, spender, previousAllowance: allowance, revoked: true, txHash: hash })
+    } catch (error) {
+      exitWithCaughtError(error, 'TRANSACTION_FAILED', `Failed to revoke allowance`)
+    }
+  })
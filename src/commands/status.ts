@@ -1,113 +1,145 @@
 import { Command } from '@commander-js/extra-typings'
 
-interface LayerZeroMessage {
-  pathway: {
-    srcEid: number
-    dstEid: number
-    sender: { address: string; name?: string; chain?: string }
-    receiver: { address: string; name?: string; chain?: string }
-  }
-  source: {
-    status: string
-    tx: {
-      txHash: string
-      blockTimestamp: number
-      from: string
-    }
-  }
-  destination?: {
-    status: string
-    tx?: {
-      txHash: string
-      blockTimestamp: number
-    }
-  }
-  status: {
-    name: string
-    message: string
-  }
-  guid: string
-  created: string
-  updated: string
-}
+import { PyusdBridge } from '../lib/bridge'
+import { type LayerZeroMessage, parsePollInterval, parseWatchTimeout, type TerminalStatus } from '../lib/layerzero'
+import { formatStatus } from '../utils/format'
+import { exitWithCaughtError, printJsonResult } from '../utils/output'
 
-interface LayerZeroResponse {
-  data: LayerZeroMessage[]
+// Exit codes for --watch, one per terminal message state
+const STATUS_EXIT_CODES: Record<TerminalStatus, number> = {
+  DELIVERED: 0,
+  FAILED: 2,
+  BLOCKED: 3,
+  PAYLOAD_STORED: 4,
 }
 
 export const statusCommand = new Command('status')
   .description('Check the status of a cross-chain transfer')
   .argument('<txHash>', 'Source chain transaction hash')
-  .action(async (txHash) => {
+  .option('-w, --watch', 'Poll until the message reaches a terminal state', false)
+  .option('--interval <seconds>', 'Initial poll interval for --watch (backs off up to 60s)', parsePollInterval, 5)
+  .option('--timeout <minutes>', 'Give up watching after this many minutes', parseWatchTimeout, 30)
+  .action(async (txHash, options) => {
+    if (options.watch) {
+      await watchStatus(txHash, options)
+      return
+    }
+
     console.log('')
     console.log('Checking LayerZero message status...')
     console.log('')
 
     try {
-      const response = await fetch(`https://scan.layerzero-api.com/v1/messages/tx/${txHash}`)
-
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.statusText}`)
-      }
-
-      const data = (await response.json()) as LayerZeroResponse
+      const message = await new PyusdBridge().trackMessage(txHash)
 
-      if (!data.data || data.data.length === 0) {
+      if (!message) {
         console.log('No LayerZero message found for this transaction.')
         console.log('It may not be a cross-chain transfer or is still being indexed.')
         console.log('')
+        printJsonResult({ txHash, found: false })
         return
       }
 
-      const message = data.data[0]
-
-      console.log('Cross-Chain Transfer Status')
-      console.log('─'.repeat(60))
-      console.log(`Status:       ${formatStatus(message.status.name)}`)
-      console.log(`Message:      ${message.status.message}`)
-      console.log(`GUID:         ${message.guid}`)
-      console.log('')
-      console.log('Source')
-      console.log('─'.repeat(60))
-      console.log(`Chain:        ${message.pathway.sender.chain || `EID ${message.pathway.srcEid}`}`)
-      console.log(`From:         ${message.source.tx.from}`)
-      console.log(`TX Hash:      ${message.source.tx.txHash}`)
-      console.log(`Timestamp:    ${formatTimestamp(message.source.tx.blockTimestamp)}`)
-      console.log('')
-      console.log('Destination')
-      console.log('─'.repeat(60))
-      console.log(`Chain:        ${message.pathway.receiver.chain || `EID ${message.pathway.dstEid}`}`)
-
-      if (message.destination?.tx) {
-        console.log(`TX Hash:      ${message.destination.tx.txHash}`)
-        console.log(`Timestamp:    ${formatTimestamp(message.destination.tx.blockTimestamp)}`)
-      } else {
-        console.log(`TX Hash:      (pending)`)
-      }
-
-      console.log('')
-      console.log('Links')
-      console.log('─'.repeat(60))
-      console.log(`LayerZero:    https://layerzeroscan.com/tx/${txHash}`)
-      console.log('')
+      printMessage(message, txHash)
     } catch (error) {
-      if (error instanceof Error) {
-        console.error(`Failed to get status: ${error.message}`)
-      }
-      process.exit(1)
+      exitWithCaughtError(error, 'NETWORK_ERROR', `Failed to get status`)
     }
   })
 
-function formatStatus(status: string): string {
-  const statusIndicators: Record<string, string> = {
-    DELIVERED: '✓ DELIVERED',
-    INFLIGHT: '⏳ INFLIGHT',
-    CONFIRMING: '⏳ CONFIRMING',
-    FAILED: '✗ FAILED',
-    BLOCKED: '⚠ BLOCKED',
-    PAYLOAD_STORED: '📦 PAYLOAD_STORED',
+/**
+ * Poll until the message reaches a terminal state, printing each transition
+ *
+ * Exits with a distinct code per terminal state (see STATUS_EXIT_CODES), or
+ * with DELIVERY_TIMEOUT's code when the timeout passes first.
+ */
+async function watchStatus(txHash: string, options: { interval: number; timeout: number }) {
+  console.log('')
+  console.log(`Watching LayerZero message status for ${txHash}...`)
+  console.log('')
+
+  let message: LayerZeroMessage
+  try {
+    message = await new PyusdBridge().trackMessage(txHash, {
+      watch: true,
+      intervalMs: options.interval * 1000,
+      timeoutMs: options.timeout * 60 * 1000,
+      onProgress: (event) => {
+        if (event.type !== 'message') {
+          return
+        }
+        const time = new Date().toLocaleTimeString()
+        const update = event.message
+        if (update) {
+          console.log(`[${time}] ${formatStatus(update.status.name)}  ${update.status.message || ''}`.trimEnd())
+        } else {
+          console.log(`[${time}] Waiting for message to be indexed...`)
+        }
+      },
+    })
+  } catch (error) {
+    exitWithCaughtError(error, 'NETWORK_ERROR', 'Failed to watch status')
   }
-  return statusIndicators[status] || status
+
+  console.log('')
+  printMessage(message, txHash)
+  process.exit(STATUS_EXIT_CODES[message.status.name as TerminalStatus])
+}
+
+/**
+ * Print the full details of a LayerZero message
+ */
+function printMessage(message: LayerZeroMessage, txHash: string) {
+  console.log('Cross-Chain Transfer Status')
+  console.log('─'.repeat(60))
+  console.log(`Status:       ${formatStatus(message.status.name)}`)
+  console.log(`Message:      ${message.status.message}`)
+  console.log(`GUID:         ${message.guid}`)
+  console.log('')
+  console.log('Source')
+  console.log('─'.repeat(60))
+  console.log(`Chain:        ${message.pathway.sender.chain || `EID ${message.pathway.srcEid}`}`)
+  console.log(`From:         ${message.source.tx.from}`)
+  console.log(`TX Hash:      ${message.source.tx.txHash}`)
+  console.log(`Timestamp:    ${formatTimestamp(message.source.tx.blockTimestamp)}`)
+  console.log('')
+  console.log('Destination')
+  console.log('─'.repeat(60))
+  console.log(`Chain:        ${message.pathway.receiver.chain || `EID ${message.pathway.dstEid}`}`)
+
+  if (message.destination?.tx) {
+    console.log(`TX Hash:      ${message.destination.tx.txHash}`)
+    console.log(`Timestamp:    ${formatTimestamp(message.destination.tx.blockTimestamp)}`)
+  } else {
+    console.log(`TX Hash:      (pending)`)
+  }
+
+  console.log('')
+  console.log('Links')
+  console.log('─'.repeat(60))
+  console.log(`LayerZero:    https://layerzeroscan.com/tx/${txHash}`)
+  console.log('')
+
+  printJsonResult({
+    txHash,
+    found: true,
+    status: message.status.name,
+    message: message.status.message,
+    guid: message.guid,
+    source: {
+      chain: message.pathway.sender.chain ?? null,
+      eid: message.pathway.srcEid,
+      from: message.source.tx.from,
+      txHash: message.source.tx.txHash,
+      timestamp: message.source.tx.blockTimestamp || null,
+    },
+    destination: {
+      chain: message.pathway.receiver.chain ?? null,
+      eid: message.pathway.dstEid,
+      txHash: message.destination?.tx?.txHash ?? null,
+      timestamp: message.destination?.tx?.blockTimestamp || null,
+    },
+    scanUrl: `https://layerzeroscan.com/tx/${txHash}`,
+  })
 }
 
 function formatTimestamp(unixTimestamp: number | undefined): string {
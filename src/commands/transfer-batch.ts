@@ -0,0 +1,372 @@
+import { existsSync } from 'node:fs'
+import { Command, Option } from '@commander-js/extra-typings'
+
+import { APPROVAL_POLICIES, type ApprovalPolicy } from '../lib/allowances'
+import { getTokenBalance } from '../lib/balances'
+import {
+  type BatchResult,
+  getDefaultResultsPath,
+  readBatchFile,
+  readBatchResults,
+  type ValidatedBatchRow,
+  validateBatchRow,
+  writeBatchResults,
+} from '../lib/batch'
+import { type BridgeQuote, type BridgeSigners, PyusdBridge } from '../lib/bridge'
+import {
+  DEFAULT_BUMP_PERCENT,
+  type FeeFlags,
+  getFeeFlagOptions,
+  parseBumpAfter,
+  parseGasLimitMultiplier,
+  parseGweiOption,
+  parseMaxBumps,
+} from '../lib/fees'
+import { loadJournal } from '../lib/journal'
+import { confirm } from '../lib/prompt'
+import {
+  collectKeystoreNames,
+  describeSignerSource,
+  loadSignerKey,
+  parseAccountIndex,
+} from '../lib/signers'
+import { getQuoteNativeValue } from '../lib/stargate'
+import { getActiveProfile } from '../lib/user-config'
+import type { ChainConfig, ChainType } from '../types/index'
+import { formatAmount, formatNativeFee, PYUSD_DECIMALS, truncateAddress } from '../utils/format'
+import { exitWithError, printJsonResult } from '../utils/output'
+
+type BatchOptions = FeeFlags & {
+  results?: string
+  retryFailed: boolean
+  slippage: string
+  approval: ApprovalPolicy
+  yes: boolean
+  dryRun: boolean
+  keystore: string[]
+  account?: number
+}
+
+interface QuotedRow {
+  row: ValidatedBatchRow
+  quote: BridgeQuote
+}
+
+export const transferBatchCommand = new Command('transfer-batch')
+  .description('Run transfers from a CSV file (columns: source, destination, amount, recipient, memo)')
+  .argument('<file>', 'Batch CSV file')
+  .option('--results <file>', 'Results CSV with each row\'s status and tx hashes (default: <file>.results.csv)')
+  .option('--retry-failed', 'Re-run only the rows that did not complete, from the results file', false)
+  .option('--slippage <percent>', 'Slippage tolerance in percent', '0.5')
+  .addOption(new Option('--approval <policy>', 'Approve exactly each transfer amount, or the amount the quote asks for').choices(APPROVAL_POLICIES).default('exact' as const))
+  .option('-y, --yes', 'Send without asking for confirmation', false)
+  .option('--dry-run', 'Validate and quote every row without sending', false)
+  .option('-k, --keystore <name>', 'Sign with an encrypted keystore (repeat for each chain type)', collectKeystoreNames, [] as string[])
+  .option('--account <index>', 'HD account index derived from MNEMONIC', parseAccountIndex)
+  .option('--max-fee-per-gas <gwei>', 'EVM: max fee per gas in gwei (default: current estimate)', parseGweiOption)
+  .option('--priority-fee <gwei>', 'EVM: max priority fee per gas in gwei (default: current estimate)', parseGweiOption)
+  .option('--gas-limit-multiplier <n>', 'EVM: multiply the estimated gas limit (e.g. 1.5)', parseGasLimitMultiplier)
+  .option('--bump-after <seconds>', `EVM: re-broadcast with ${DEFAULT_BUMP_PERCENT}% higher fees if not mined in time`, parseBumpAfter)
+  .option('--max-bumps <n>', 'Fee bumps before giving up (with --bump-after)', parseMaxBumps, 3)
+  .action(async (file, options) => {
+    await runBatch(file, options)
+  })
+
+/**
+ * Why a row can't simply be sent again, if its earlier attempt got as far as the bridge step
+ */
+function getRetryBlocker(result: BatchResult): string | undefined {
+  if (!result.journalId) {
+    return undefined
+  }
+
+  let journal
+  try {
+    journal = loadJournal(result.journalId)
+  } catch {
+    return undefined
+  }
+
+  const bridge = journal.steps.find((step) => step.type === 'bridge' && step.txHash)
+  if (journal.status === 'completed' || bridge) {
+    return `bridge transaction ${bridge?.txHash ?? ''} was already sent; finish it with: pyusd-lz transfer resume ${journal.id}`
+  }
+  return undefined
+}
+
+/**
+ * Quote a validated row for the summary
+ *
+ * @throws PyusdError If no quote is available
+ */
+async function quoteRow(bridge: PyusdBridge, row: ValidatedBatchRow, slippagePercent: number): Promise<QuotedRow> {
+  const quote = await bridge.quote({
+    source: row.srcConfig.chainKey,
+    destination: row.dstConfig.chainKey,
+    amount: row.amountLD,
+    recipient: row.recipient,
+    slippagePercent,
+  })
+  return { row, quote }
+}
+
+/**
+ * Send one row and record its result
+ *
+ * The bridge re-quotes the row, applies the approval policy and verifies the
+ * calldata it will sign, then journals every step. Never throws: failures are
+ * recorded on the result so the rest of the batch continues.
+ */
+async function executeBatchRow(
+  bridge: PyusdBridge,
+  row: ValidatedBatchRow,
+  result: BatchResult,
+  options: BatchOptions & { slippagePercent: number }
+): Promise<void> {
+  const label = `[row ${row.row}]`
+
+  try {
+    const transfer = await bridge.transfer({
+      source: row.srcConfig.chainKey,
+      destination: row.dstConfig.chainKey,
+      amount: row.amountLD,
+      recipient: row.recipient,
+      slippagePercent: options.slippagePercent,
+      approval: options.approval,
+      ...getFeeFlagOptions(options),
+      onProgress: (event) => {
+        if (event.type === 'journal') {
+          result.journalId = event.journalId
+          console.log(`${label} → ${row.amount} ${row.srcConfig.symbol} ${row.srcConfig.name} → ${row.dstConfig.name} (journal ${event.journalId})`)
+        } else if (event.type === 'step' && event.status === 'confirmed') {
+          console.log(`${label}   ✓ ${event.stepType} confirmed: ${event.txHash}`)
+        }
+      },
+    })
+
+    result.txHashes = transfer.txHashes
+    if (!transfer.success) {
+      throw new Error(transfer.error || 'Transfer failed')
+    }
+
+    result.status = 'completed'
+    result.error = undefined
+    console.log(`${label} ✓ Completed`)
+  } catch (error) {
+    result.status = 'failed'
+    result.error = error instanceof Error ? error.message.split('\n')[0] : String(error)
+    console.error(`${label} ✗ Failed: ${result.error}`)
+  }
+}
+
+/**
+ * Validate, quote, confirm and run a batch of transfers
+ */
+async function runBatch(filePath: string, options: BatchOptions) {
+  const resultsPath = options.results ?? getDefaultResultsPath(filePath)
+  const slippagePercent = Number.parseFloat(options.slippage)
+
+  let results: BatchResult[]
+  try {
+    if (options.retryFailed) {
+      if (!existsSync(resultsPath)) {
+        throw new Error(`No results file at ${resultsPath} to retry from`)
+      }
+      results = readBatchResults(resultsPath)
+    } else {
+      results = readBatchFile(filePath).map((row) => ({ ...row, status: 'pending', txHashes: [] }))
+    }
+  } catch (error) {
+    exitWithError('INVALID_INPUT', error)
+  }
+
+  const pending = results.filter((result) => result.status !== 'completed')
+
+  console.log('')
+  console.log('PYUSD Batch Transfer')
+  console.log('─'.repeat(50))
+  console.log(`File:       ${options.retryFailed ? resultsPath : filePath}`)
+  console.log(`Rows:       ${results.length}${options.retryFailed ? ` (${pending.length} not completed)` : ''}`)
+  console.log(`Results:    ${resultsPath}`)
+  console.log('')
+
+  if (pending.length === 0) {
+    console.log('✓ Every row has already completed. Nothing to send.')
+    console.log('')
+    printJsonResult({ resultsPath, completed: 0, failed: 0, rows: results })
+    return
+  }
+
+  // Step 1: Validate every row before touching the network
+  console.log(`Step 1: Validating ${pending.length} row(s)...`)
+  const validated: ValidatedBatchRow[] = []
+  let invalid = 0
+  for (const result of pending) {
+    try {
+      const blocker = getRetryBlocker(result)
+      if (blocker) {
+        throw new Error(blocker)
+      }
+      validated.push(validateBatchRow(result))
+    } catch (error) {
+      invalid++
+      console.error(`  ✗ Row ${result.row}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+  if (invalid > 0) {
+    console.error('')
+    exitWithError('INVALID_INPUT', `${invalid} row(s) need attention. Nothing was sent.`)
+  }
+  console.log(`  ✓ ${validated.length} row(s) valid`)
+  console.log('')
+
+  // Load one signer per source chain type up front (keystores prompt once)
+  const signers: BridgeSigners = {}
+  for (const chainType of new Set<ChainType>(validated.map((row) => row.srcConfig.chainType))) {
+    let privateKey: string | undefined
+    try {
+      privateKey = await loadSignerKey(chainType, options.keystore, options.account)
+    } catch (error) {
+      exitWithError('ERROR', error)
+    }
+    if (!privateKey) {
+      exitWithError('SIGNER_REQUIRED', `${describeSignerSource(chainType)} is required for transfers from ${chainType} chains`)
+    }
+    signers[chainType] = privateKey
+  }
+  const bridge = new PyusdBridge({ signers })
+
+  // Step 2: Quote every row
+  console.log(`Step 2: Quoting ${validated.length} transfer(s)...`)
+  const quoted: QuotedRow[] = []
+  let unquoted = 0
+  for (const row of validated) {
+    try {
+      const quotedRow = await quoteRow(bridge, row, slippagePercent)
+      quoted.push(quotedRow)
+      const memo = row.memo ? ` (${row.memo})` : ''
+      console.log(`  ✓ Row ${row.row}: ${row.amount} ${row.srcConfig.name} → ${row.dstConfig.name} ${truncateAddress(row.recipient)}, receives ${formatAmount(quotedRow.quote.dstAmount)}${memo}`)
+    } catch (error) {
+      unquoted++
+      console.error(`  ✗ Row ${row.row}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+  if (unquoted > 0) {
+    console.error('')
+    exitWithError('QUOTE_UNAVAILABLE', `${unquoted} row(s) could not be quoted. Nothing was sent.`)
+  }
+  console.log('')
+
+  // Totals per source chain, which is also the order rows are sent in
+  const groups = new Map<string, { srcConfig: ChainConfig; rows: QuotedRow[]; amountLD: bigint; nativeFee: bigint }>()
+  for (const quotedRow of quoted) {
+    const { srcConfig } = quotedRow.row
+    const group = groups.get(srcConfig.chainKey) ?? { srcConfig, rows: [], amountLD: 0n, nativeFee: 0n }
+    group.rows.push(quotedRow)
+    group.amountLD += quotedRow.row.amountLD
+    group.nativeFee += getQuoteNativeValue(quotedRow.quote.legs[0].quote)
+    groups.set(srcConfig.chainKey, group)
+  }
+
+  console.log('Summary')
+  console.log('─'.repeat(50))
+  let shortfall = false
+  for (const { srcConfig, rows, amountLD, nativeFee } of groups.values()) {
+    const sender = bridge.getSignerAddress(srcConfig.chainType)!
+    const balance = await getTokenBalance(srcConfig, sender)
+    console.log(`${srcConfig.name}: ${rows.length} transfer(s) from ${truncateAddress(sender)}`)
+    console.log(`  Send:         ${formatAmount(amountLD)} ${srcConfig.symbol} (balance ${formatAmount(balance)})`)
+    console.log(`  Bridge fees:  ${formatNativeFee(nativeFee, srcConfig.nativeCurrency.symbol, srcConfig.nativeCurrency.decimals)} (plus gas)`)
+    if (balance < amountLD) {
+      shortfall = true
+      console.error(`  ✗ Insufficient ${srcConfig.symbol}: short by ${formatAmount(amountLD - balance)}`)
+    }
+  }
+
+  const totalSent = quoted.reduce((total, { row }) => total + row.amountLD, 0n)
+  const totalReceived = quoted.reduce((total, { quote }) => total + quote.dstAmount, 0n)
+  console.log('')
+  console.log(`Total send:     ${formatAmount(totalSent)}`)
+  console.log(`Total receive:  ${formatAmount(totalReceived)}`)
+  console.log(`Token fees:     ${formatAmount(totalSent - totalReceived)}`)
+  console.log('')
+
+  if (shortfall) {
+    exitWithError('INSUFFICIENT_BALANCE', 'Not enough balance for the batch. Nothing was sent.')
+  }
+
+  if (options.dryRun) {
+    console.log('─'.repeat(50))
+    console.log('Dry run complete. Remove --dry-run flag to execute.')
+    console.log('')
+    printJsonResult({
+      dryRun: true,
+      decimals: PYUSD_DECIMALS,
+      totalSent,
+      totalReceived,
+      rows: quoted.map(({ row, quote }) => ({
+        row: row.row,
+        source: row.srcConfig.chainKey,
+        destination: row.dstConfig.chainKey,
+        recipient: row.recipient,
+        memo: row.memo,
+        amount: row.amountLD,
+        quote: quote.legs[0].quote,
+      })),
+    })
+    return
+  }
+
+  // Batches ask by default; a profile can turn that off with confirm=false
+  if (!options.yes && getActiveProfile().confirm !== false) {
+    let confirmed: boolean
+    try {
+      confirmed = await confirm(`Send ${quoted.length} transfer(s)?`)
+    } catch (error) {
+      exitWithError('INVALID_INPUT', `${error instanceof Error ? error.message : error}. Pass --yes to confirm non-interactively.`)
+    }
+    if (!confirmed) {
+      console.log('Aborted. Nothing was sent.')
+      printJsonResult({ aborted: true })
+      return
+    }
+  }
+
+  // Step 3: Rows from the same source chain run one at a time, so each
+  // transaction picks up the next nonce; different chains run in parallel
+  console.log('')
+  console.log(`Step 3: Executing ${quoted.length} transfer(s)...`)
+  writeBatchResults(resultsPath, results)
+
+  await Promise.all(
+    [...groups.values()].map(async ({ rows }) => {
+      for (const { row } of rows) {
+        const result = results.find((candidate) => candidate.row === row.row)!
+        await executeBatchRow(bridge, row, result, { ...options, slippagePercent })
+        writeBatchResults(resultsPath, results)
+      }
+    })
+  )
+
+  const completed = quoted.filter(({ row }) => results.find((result) => result.row === row.row)?.status === 'completed').length
+  const failed = quoted.length - completed
+
+  console.log('')
+  console.log('Results')
+  console.log('─'.repeat(50))
+  console.log(`Completed:  ${completed}`)
+  console.log(`Failed:     ${failed}`)
+  console.log(`Written to: ${resultsPath}`)
+  console.log('')
+
+  if (failed > 0) {
+    const resultsFlag = options.results ? ` --results ${options.results}` : ''
+    exitWithError(
+      'TRANSACTION_FAILED',
+      `${failed} of ${quoted.length} transfer(s) failed (see ${resultsPath})`,
+      `Re-run the failed rows with: pyusd-lz transfer-batch ${filePath} --retry-failed${resultsFlag}`
+    )
+  }
+
+  printJsonResult({ resultsPath, completed, failed, rows: results })
+}
@@ -1,337 +1,810 @@
-import { Command } from '@commander-js/extra-typings'
-import { erc20Abi } from 'viem'
+import { writeFileSync } from 'node:fs'
+import { Command, Option } from '@commander-js/extra-typings'
+import { formatUnits } from 'viem'
 
-import { getChainConfig, resolveChainConfigsForTransfer } from '../lib/chains'
-import { createPublicClientForChain, createWalletClientForChain } from '../lib/client'
-import { resolveAddress, resolveSolanaAddress } from '../lib/input-validation'
+import { APPROVAL_POLICIES, type ApprovalPolicy } from '../lib/allowances'
 import {
-  createSolanaConnection,
-  createSolanaKeypair,
-} from '../lib/solana-client'
+  type BridgeProgressCallback,
+  type BridgeQuote,
+  type BridgeResumeResult,
+  type BridgeSafeBatch,
+  type BridgeSigners,
+  type BridgeTransferResult,
+  type BridgeUnsignedExport,
+  type DeliveryResult,
+  PyusdBridge,
+} from '../lib/bridge'
+import { getChainConfig, isEvmChain, resolveChainConfigsForTransfer } from '../lib/chains'
+import { resolveRecipient } from '../lib/contacts'
+import { InvalidInputError } from '../lib/errors'
 import {
-  calculateMinAmount,
-  executeStargateTransfer,
-  executeSolanaStargateTransfer,
-  fetchStargateQuote,
-} from '../lib/stargate'
-import { formatAmount, parseAmount, truncateAddress } from '../utils/format'
+  DEFAULT_BUMP_PERCENT,
+  type FeeFlags,
+  getFeeFlagOptions,
+  parseBumpAfter,
+  parseGasLimitMultiplier,
+  parseGweiOption,
+  parseMaxBumps,
+} from '../lib/fees'
+import { resolveAddressForChainType } from '../lib/input-validation'
+import { loadJournal, type TransferJournal } from '../lib/journal'
+import { writeUnsignedTransfer } from '../lib/offline-signing'
+import { planRoute, type RoutePlan } from '../lib/routing'
+import { confirm } from '../lib/prompt'
+import {
+  collectKeystoreNames,
+  deriveSignerAddress,
+  describeSignerSource,
+  loadSignerKey,
+  parseAccountIndex,
+} from '../lib/signers'
+import { getQuoteNativeValue, type TransferStepCallback } from '../lib/stargate'
+import { getActiveProfile, getProfileRecipient } from '../lib/user-config'
+import type { ChainType } from '../types/index'
+import { printRoutePlan, printSimulation } from '../utils/display'
+import { formatAmount, formatDuration, formatNativeFee, formatStatus, parseAmount, PYUSD_DECIMALS, truncateAddress } from '../utils/format'
+import { exitWithCaughtError, exitWithError, printJsonResult } from '../utils/output'
+
+const resumeCommand = new Command('resume')
+  .description('Resume a transfer that failed partway, using its journal')
+  .argument('<id>', 'Transfer journal ID (printed when the transfer started)')
+  .option('-k, --keystore <name>', 'Sign with an encrypted keystore', collectKeystoreNames, [] as string[])
+  .option('--account <index>', 'HD account index derived from MNEMONIC', parseAccountIndex)
+  .option('--force-resend', 'Resend steps whose transactions are still pending (only if you know they were dropped)', false)
+  .option('--max-fee-per-gas <gwei>', 'EVM: max fee per gas in gwei (default: current estimate)', parseGweiOption)
+  .option('--priority-fee <gwei>', 'EVM: max priority fee per gas in gwei (default: current estimate)', parseGweiOption)
+  .option('--gas-limit-multiplier <n>', 'EVM: multiply the estimated gas limit (e.g. 1.5)', parseGasLimitMultiplier)
+  .option('--bump-after <seconds>', `EVM: re-broadcast with ${DEFAULT_BUMP_PERCENT}% higher fees if not mined in time`, parseBumpAfter)
+  .option('--max-bumps <n>', 'Fee bumps before giving up (with --bump-after)', parseMaxBumps, 3)
+  .action(async (id, options) => {
+    await resumeTransfer(id, options)
+  })
 
 export const transferCommand = new Command('transfer')
   .description('Execute a PYUSD cross-chain transfer via Stargate')
   .argument('<source>', 'Source chain (e.g., ethereum, arbitrum, solana)')
   .argument('<destination>', 'Destination chain')
   .argument('<amount>', 'Amount of PYUSD to transfer')
-  .option('--to <address>', 'Recipient address on destination chain (defaults to sender)')
+  .option('--to <address|contact>', 'Recipient address or contact name (defaults to the profile recipient, then the sender)')
   .option('--slippage <percent>', 'Slippage tolerance in percent', '0.5')
+  .option('--route <name|index>', 'Use a specific Stargate route (see quote --all) instead of the one that delivers the most')
+  .option('--direct', 'Send through the OFT contracts directly, without the Stargate API (EVM only)', false)
+  .addOption(new Option('--approval <policy>', 'Approve exactly the transfer amount, or the amount the quote asks for').choices(APPROVAL_POLICIES).default('exact' as const))
+  .option('--max-fee-per-gas <gwei>', 'EVM: max fee per gas in gwei (default: current estimate)', parseGweiOption)
+  .option('--priority-fee <gwei>', 'EVM: max priority fee per gas in gwei (default: current estimate)', parseGweiOption)
+  .option('--gas-limit-multiplier <n>', 'EVM: multiply the estimated gas limit (e.g. 1.5)', parseGasLimitMultiplier)
+  .option('--bump-after <seconds>', `EVM: re-broadcast with ${DEFAULT_BUMP_PERCENT}% higher fees if not mined in time`, parseBumpAfter)
+  .option('--max-bumps <n>', 'Fee bumps before giving up (with --bump-after)', parseMaxBumps, 3)
   .option('--dry-run', 'Simulate transaction without sending', false)
-  .action(async (source, destination, amount, options) => {
+  .option('--wait', 'Wait for LayerZero delivery and verify the destination balance', false)
+  .option('-y, --yes', 'Send without asking for confirmation (when the profile sets confirm=true)', false)
+  .option('-k, --keystore <name>', 'Sign with an encrypted keystore (repeat for each chain type)', collectKeystoreNames, [] as string[])
+  .option('--account <index>', 'HD account index derived from MNEMONIC', parseAccountIndex)
+  .option('--export-unsigned <file>', 'Write unsigned transactions for offline signing instead of sending')
+  .option('--from <address>', 'Sender address for --export-unsigned (defaults to the configured signer)')
+  .option('--safe <address>', 'Send from a Safe: write a Safe Transaction Builder batch instead of sending')
+  .option('--safe-batch <file>', 'Output file for the --safe batch', 'safe-batch.json')
+  .action(async (source, destination, amount, flags) => {
     const { srcConfig, dstConfig } = resolveChainConfigsForTransfer(source, destination)
+    // --to may name a contact, resolved to its address for the destination's chain type
+    const recipient = flags.to ? resolveRecipient(flags.to, dstConfig.chainType) : undefined
+    const options = { ...flags, to: recipient?.address || getProfileRecipient(dstConfig.chainType), toContact: recipient?.contact }
 
-    // Check for Tron (still unsupported)
-    if (srcConfig.chainType === 'tron') {
-      console.error(`Error: Transfers from ${srcConfig.name} are not yet supported.`)
-      process.exit(1)
+    // Cross-mesh transfers are split into legs through the hub chain
+    const plan = planRoute(srcConfig, dstConfig)
+
+    if (options.direct && (plan.isMultiHop || !isEvmChain(srcConfig))) {
+      exitWithError('INVALID_INPUT', `--direct supports single-leg transfers from EVM chains only (${srcConfig.name} → ${dstConfig.name})`)
     }
 
-    const isSolanaSource = srcConfig.chainType === 'solana'
+    if (options.exportUnsigned) {
+      await exportUnsignedTransfer(srcConfig, dstConfig, amount, options.exportUnsigned, options)
+      return
+    }
+
+    if (options.safe) {
+      await exportSafeBatch(srcConfig, dstConfig, amount, options.safe, options.safeBatch, options)
+      return
+    }
 
-    // Execute based on source chain type
-    if (isSolanaSource) {
-      await executeSolanaTransfer(srcConfig, dstConfig, amount, options)
-    } else {
-      await executeEvmTransfer(srcConfig, dstConfig, amount, options)
+    if (plan.isMultiHop && options.route) {
+      exitWithError('INVALID_INPUT', '--route is not supported for multi-hop transfers')
     }
+
+    await runTransfer(plan, amount, options)
   })
+  .addCommand(resumeCommand)
+
+type TransferOptions = FeeFlags & {
+  to?: string
+  toContact?: string // Contact name --to was resolved from
+  slippage: string
+  dryRun: boolean
+  wait: boolean
+  yes?: boolean
+  keystore: string[]
+  account?: number
+  from?: string
+  route?: string
+  direct?: boolean
+  approval?: ApprovalPolicy
+}
+
+// Key format reminders for missing signers
+const SIGNER_KEY_HINTS: Partial<Record<ChainType, string>> = {
+  solana: 'Key should be base58 encoded (Solana CLI format) or 64-byte hex.',
+  tron: 'Key should be 32-byte hex (with or without 0x prefix).',
+}
+
+function printApprovalSkipped(spender: string, allowance: bigint): void {
+  console.log(`  ✓ Approval skipped: ${truncateAddress(spender)} already has an allowance of ${formatAmount(allowance)}`)
+}
 
 /**
- * Execute a transfer from an EVM chain
+ * Exit after a failed transfer, listing what was sent and how to resume
  */
-async function executeEvmTransfer(
-  srcConfig: ReturnType<typeof getChainConfig>,
-  dstConfig: ReturnType<typeof getChainConfig>,
-  amount: string,
-  options: { to?: string; slippage: string; dryRun: boolean }
-) {
-  const privateKey = process.env.PRIVATE_KEY
-  if (!privateKey) {
-    console.error('Error: PRIVATE_KEY environment variable is required for EVM transfers')
-    process.exit(1)
+function exitTransferFailed(result: Pick<BridgeTransferResult, 'error' | 'legs' | 'journalId'>): never {
+  const hints = result.legs.map(({ leg, txHashes }) => `Completed on ${leg.srcConfig.name}: ${txHashes.join(', ')}`)
+  if (result.journalId) {
+    hints.push(`Resume with: pyusd-lz transfer resume ${result.journalId}`)
   }
+  console.error('')
+  exitWithError('TRANSACTION_FAILED', `Transfer failed: ${result.error}`, hints.join('\n') || undefined)
+}
 
-  // Resolve sender and recipient addresses
-  const senderAddress = resolveAddress({ requirePrivateKey: true })
-  const recipientAddress = (options.to || senderAddress) as `0x${string}`
+/**
+ * Write the JSON result of a sent transfer
+ */
+function printTransferResult(result: {
+  journalId?: string
+  srcConfig: ReturnType<typeof getChainConfig>
+  dstConfig: ReturnType<typeof getChainConfig>
+  sender: string
+  recipient: string
+  recipientContact?: string
+  amountLD: bigint
+  dstAmount: string
+  txHashes: string[]
+  finalTxHash?: string
+  delivery?: DeliveryResult
+  legs?: { source: string; destination: string; txHashes: string[]; finalTxHash?: string }[]
+}): void {
+  printJsonResult({
+    journalId: result.journalId,
+    source: result.srcConfig.chainKey,
+    destination: result.dstConfig.chainKey,
+    sender: result.sender,
+    recipient: result.recipient,
+    recipientContact: result.recipientContact,
+    amount: result.amountLD,
+    dstAmount: result.dstAmount,
+    decimals: PYUSD_DECIMALS,
+    legs: result.legs,
+    txHashes: result.txHashes,
+    finalTxHash: result.finalTxHash,
+    scanUrl: result.finalTxHash ? `https://layerzeroscan.com/tx/${result.finalTxHash}` : undefined,
+    status: result.delivery?.status ?? 'PENDING',
+    delivery: result.delivery,
+  })
+}
 
-  // Calculate amounts in base units
-  const amountLD = parseAmount(amount)
-  const slippagePercent = Number.parseFloat(options.slippage)
-  const minAmountLD = BigInt(calculateMinAmount(amountLD.toString(), slippagePercent))
+/**
+ * Format a recipient for a summary: contacts show their name and full address
+ */
+function formatRecipient(address: string, contact?: string): string {
+  return contact ? `${contact} (${address})` : truncateAddress(address)
+}
 
-  const publicClient = createPublicClientForChain(srcConfig)
-  const walletClient = createWalletClientForChain(srcConfig, privateKey as `0x${string}`)
+/**
+ * Load the signing key for a chain type, exiting on keystore or mnemonic errors
+ */
+async function loadSignerKeyOrExit(
+  chainType: ChainType,
+  keystoreNames: string[],
+  account?: number
+): Promise<string | undefined> {
+  try {
+    return await loadSignerKey(chainType, keystoreNames, account)
+  } catch (error) {
+    exitWithError('ERROR', error)
+  }
+}
+
+/**
+ * Print step progress for a transfer with the given number of steps
+ */
+function printStepProgress(totalSteps: number): TransferStepCallback {
+  const submitted = new Set<number>()
+  return (stepIndex, stepType, status, txHash) => {
+    const stepNum = stepIndex + 1
+    if (status === 'pending') {
+      console.log(`  → Step ${stepNum}/${totalSteps}: ${stepType}...`)
+    } else if (status === 'submitted') {
+      // A step submitted again was re-broadcast with bumped fees
+      if (submitted.has(stepIndex)) {
+        console.log(`  → Step ${stepNum}/${totalSteps}: still pending, replaced with higher fees (${txHash})`)
+      }
+      submitted.add(stepIndex)
+    } else if (status === 'confirmed') {
+      console.log(`  ✓ Step ${stepNum}/${totalSteps}: ${stepType} confirmed`)
+    }
+  }
+}
+
+/**
+ * Print a transfer's progress events as the bridge reports them
+ */
+function printTransferProgress(legCount: number): BridgeProgressCallback {
+  let onStep = printStepProgress(0)
+  let sending = false
+  let waitingFor: string | undefined
+
+  return (event) => {
+    switch (event.type) {
+      case 'balance':
+        console.log(`  ✓ Balance: ${formatAmount(event.balance)} ${event.chainConfig.symbol}`)
+        break
+      case 'safe':
+        console.log(`  ✓ Safe: ${event.safe.threshold}/${event.safe.owners.length} signers, nonce ${event.safe.nonce}`)
+        break
+      case 'reconciled':
+        event.steps.forEach((step, i) => {
+          console.log(`  ${step.status === 'confirmed' ? '✓' : '·'} Step ${i + 1}: ${step.type} (${step.status})`)
+        })
+        console.log('')
+        break
+      case 'quoted':
+        if (sending) {
+          console.log(`  ✓ Re-quoted: will receive ${formatAmount(BigInt(event.leg.quote.dstAmount))} ${event.leg.dstConfig.symbol}`)
+        } else if (event.routeCount > 1) {
+          console.log(`  ✓ Route: ${event.route} (${event.rank} of ${event.routeCount})`)
+        }
+        break
+      case 'approval-skipped':
+        printApprovalSkipped(event.spender, event.allowance)
+        break
+      case 'verified':
+        console.log(`  ✓ Calldata verified: ${event.steps.map((step) => step.summary).join(', ')}`)
+        break
+      case 'prepared': {
+        if (event.quote.isMultiHop) {
+          console.log(`  ✓ Quote received: ${event.quote.legs.length} leg(s)`)
+          console.log('')
+          printRoutePlan(event.quote)
+          break
+        }
+        const { quote, srcConfig, dstConfig } = event.quote.legs[0]
+        const nativeFee = getQuoteNativeValue(quote)
+        console.log(`  ✓ Quote received: ${quote.steps.length} step(s)`)
+        console.log(`  ✓ Will receive: ${formatAmount(BigInt(quote.dstAmount))} ${dstConfig.symbol}`)
+        console.log(`  ✓ Protocol fee: ${formatAmount(BigInt(quote.srcAmount) - BigInt(quote.dstAmount))} ${srcConfig.symbol}`)
+        console.log(`  ✓ Native fee: ${nativeFee > 0n ? formatNativeFee(nativeFee, srcConfig.nativeCurrency.symbol, srcConfig.nativeCurrency.decimals) : 'none'}`)
+        console.log('')
+        break
+      }
+      case 'leg': {
+        const { leg, legIndex, startStep } = event
+        sending = true
+        onStep = printStepProgress(leg.quote.steps.length)
+        if (startStep !== undefined) {
+          console.log(`Executing remaining steps (${leg.quote.steps.length - startStep} transaction(s))...`)
+        } else {
+          console.log(legCount > 1
+            ? `Leg ${legIndex + 1}/${legCount}: ${leg.srcConfig.name} → ${leg.dstConfig.name} (${leg.quote.steps.length} transaction(s))...`
+            : `Executing transfer (${leg.quote.steps.length} transaction(s))...`)
+        }
+        break
+      }
+      case 'journal':
+        console.log(`  Journal: ${event.journalId}`)
+        break
+      case 'step':
+        onStep(event.stepIndex, event.stepType, event.status, event.txHash)
+        break
+      case 'message':
+        if (event.txHash !== waitingFor) {
+          waitingFor = event.txHash
+          console.log('')
+          console.log('Waiting for LayerZero delivery...')
+        }
+        console.log(`  → ${event.message ? formatStatus(event.message.status.name) : 'Waiting for message to be indexed'}`)
+        break
+      case 'arrived':
+        console.log(`  ✓ Arrived on ${event.chainConfig.name}: ${formatAmount(event.amount)} ${event.chainConfig.symbol}`)
+        break
+    }
+  }
+}
 
+/**
+ * Print what a --wait transfer delivered to the recipient
+ */
+function printDelivery(delivery: DeliveryResult, dstConfig: ReturnType<typeof getChainConfig>): void {
   console.log('')
-  console.log('PYUSD Cross-Chain Transfer (via Stargate)')
+  console.log('Delivery')
   console.log('─'.repeat(50))
-  console.log(`From:       ${srcConfig.name} → ${dstConfig.name}`)
-  console.log(`Sender:     ${truncateAddress(senderAddress)}`)
-  console.log(`Recipient:  ${truncateAddress(recipientAddress)}`)
-  console.log(`Amount:     ${amount} PYUSD`)
+  console.log(`Destination TX: ${delivery.dstTxHash || '(unknown)'}`)
+  console.log(`Received:       ${formatAmount(delivery.received)} ${dstConfig.symbol} (expected ${formatAmount(delivery.expected)})`)
+  console.log(`Balance:        ${formatAmount(delivery.balance)} ${dstConfig.symbol}`)
+  console.log(`Elapsed:        ${formatDuration(delivery.elapsedMs)}`)
+  console.log('')
+}
+
+/**
+ * Print the steps a dry run would send, per leg for multi-hop transfers
+ */
+function printDryRunSteps(quote: BridgeQuote): void {
+  console.log('Steps that would be executed:')
+  for (let i = 0; i < quote.legs.length; i++) {
+    const { srcConfig, dstConfig, quote: legQuote } = quote.legs[i]
+    const indent = quote.isMultiHop ? '    ' : '  '
+    if (quote.isMultiHop) {
+      console.log(`  Leg ${i + 1} (${srcConfig.name} → ${dstConfig.name}):`)
+    }
+    for (let j = 0; j < legQuote.steps.length; j++) {
+      const { value } = legQuote.steps[j].transaction
+      const valueNote = value && value !== '0'
+        ? ` (+ ${formatUnits(BigInt(value), srcConfig.nativeCurrency.decimals)} ${srcConfig.nativeCurrency.symbol})`
+        : ''
+      console.log(`${indent}${j + 1}. ${legQuote.steps[j].type}${valueNote}`)
+    }
+  }
   console.log('')
+}
 
+/**
+ * Ask whether to send a prepared transfer
+ *
+ * @throws InvalidInputError If stdin isn't a terminal
+ */
+async function confirmTransfer(): Promise<boolean> {
+  let confirmed: boolean
   try {
-    // Step 1: Check balance
-    console.log('Step 1: Checking balance...')
-    const balance = await publicClient.readContract({
-      abi: erc20Abi,
-      address: srcConfig.tokenAddress,
-      functionName: 'balanceOf',
-      args: [senderAddress],
-    })
+    confirmed = await confirm('Send this transfer?')
+  } catch (error) {
+    throw new InvalidInputError(`${error instanceof Error ? error.message : error}. Pass --yes to confirm non-interactively.`)
+  }
+  console.log('')
+  return confirmed
+}
 
-    if (balance < amountLD) {
-      console.error(`Insufficient balance: have ${formatAmount(balance)} PYUSD, need ${amount} PYUSD`)
-      process.exit(1)
+/**
+ * Run a transfer through PyusdBridge with the configured signers
+ *
+ * Single-leg and multi-hop transfers take the same path: the bridge quotes,
+ * verifies and sends every leg, and this prints its progress and result.
+ */
+async function runTransfer(plan: RoutePlan, amount: string, options: TransferOptions) {
+  const srcConfig = plan.legs[0].srcConfig
+  const dstConfig = plan.legs[plan.legs.length - 1].dstConfig
+
+  // Every leg needs a signer for its source chain
+  const signers: BridgeSigners = {}
+  for (const leg of plan.legs) {
+    const chainType = leg.srcConfig.chainType
+    signers[chainType] ??= await loadSignerKeyOrExit(chainType, options.keystore, options.account)
+    if (!signers[chainType]) {
+      exitWithError(
+        'SIGNER_REQUIRED',
+        `${describeSignerSource(chainType)} is required for transfers from ${leg.srcConfig.name}`,
+        SIGNER_KEY_HINTS[chainType]
+      )
     }
+  }
 
-    console.log(`  ✓ Balance: ${formatAmount(balance)} PYUSD`)
-    console.log('')
-
-    // Step 2: Get quote from Stargate
-    console.log('Step 2: Getting quote from Stargate...')
-
-    const quoteResult = await fetchStargateQuote({
-      srcToken: srcConfig.tokenAddress,
-      dstToken: dstConfig.tokenAddress,
-      srcAddress: senderAddress,
-      dstAddress: recipientAddress,
-      srcChainKey: srcConfig.chainKey,
-      dstChainKey: dstConfig.chainKey,
-      srcAmount: amountLD.toString(),
-      dstAmountMin: minAmountLD.toString(),
-    })
+  // Default to the sender, or the configured address of the destination's chain type
+  const senderAddress = deriveSignerAddress(srcConfig.chainType, signers[srcConfig.chainType]!)
+  const dstSigner = signers[dstConfig.chainType]
+  const recipientAddress = options.to
+    || (dstSigner
+      ? deriveSignerAddress(dstConfig.chainType, dstSigner)
+      : resolveAddressForChainType(dstConfig.chainType, options.account))
+  const amountLD = parseAmount(amount)
 
-    if (!quoteResult.success || !quoteResult.bestQuote) {
-      console.error(`Failed to get quote: ${quoteResult.error || 'No routes available'}`)
-      console.error('')
+  console.log('')
+  console.log(plan.isMultiHop ? 'PYUSD Multi-Hop Cross-Chain Transfer (via Stargate)' : 'PYUSD Cross-Chain Transfer (via Stargate)')
+  console.log('─'.repeat(50))
+  console.log(`From:       ${srcConfig.name} → ${dstConfig.name}`)
+  if (plan.isMultiHop) {
+    console.log(`Via:        ${plan.legs.slice(1).map((leg) => leg.srcConfig.name).join(', ')}`)
+  }
+  console.log(`Sender:     ${truncateAddress(senderAddress)}`)
+  console.log(`Recipient:  ${formatRecipient(recipientAddress, options.toContact)}`)
+  console.log(`Amount:     ${amount} ${srcConfig.symbol}`)
+  console.log('')
 
-      // Provide helpful guidance for cross-mesh routes
-      if (srcConfig.symbol === 'PYUSD' && dstConfig.symbol === 'PYUSD0' && srcConfig.chainKey !== 'arbitrum') {
-        console.error('Tip: Transfers from Ethereum to PYUSD0 chains require routing through Arbitrum.')
-        console.error('     Try: ethereum → arbitrum, then arbitrum → ' + dstConfig.chainKey)
-        console.error('')
-      }
+  console.log(`Preparing transfer (quote from ${options.direct ? 'the OFT contract' : 'Stargate'})...`)
 
-      process.exit(1)
-    }
+  const bridge = new PyusdBridge({ signers })
+  let result: BridgeTransferResult
+  try {
+    result = await bridge.transfer({
+      source: srcConfig.chainKey,
+      destination: dstConfig.chainKey,
+      amount: amountLD,
+      recipient: recipientAddress,
+      slippagePercent: Number.parseFloat(options.slippage),
+      route: options.route,
+      direct: options.direct,
+      approval: options.approval,
+      ...getFeeFlagOptions(options),
+      dryRun: options.dryRun,
+      wait: options.wait,
+      // Ask once the received amount and fees are known
+      confirm: !options.dryRun && !options.yes && getActiveProfile().confirm ? confirmTransfer : undefined,
+      onProgress: printTransferProgress(plan.legs.length),
+    })
+  } catch (error) {
+    exitWithCaughtError(error, 'TRANSACTION_FAILED', 'Transaction failed')
+  }
 
-    const quote = quoteResult.bestQuote
-    console.log(`  ✓ Quote received: ${quote.steps.length} step(s)`)
-    console.log(`  ✓ Will receive: ${formatAmount(BigInt(quote.dstAmount))} PYUSD`)
-    console.log('')
+  if (result.aborted) {
+    console.log('Aborted. Nothing was sent.')
+    printJsonResult({ aborted: true })
+    return
+  }
 
-    // Step 3: Execute transfer (or dry run)
-    if (options.dryRun) {
-      console.log('Step 3: Dry run (skipping actual transfer)')
-      console.log('  ✓ Quote simulation successful')
-      console.log('')
-      console.log('─'.repeat(50))
-      console.log('Dry run complete. Remove --dry-run flag to execute.')
-      console.log('')
-      console.log('Steps that would be executed:')
-      for (let i = 0; i < quote.steps.length; i++) {
-        const step = quote.steps[i]
-        const gasNote = step.transaction.value && step.transaction.value !== '0'
-          ? ` (+ ${Number(BigInt(step.transaction.value)) / 1e18} ${srcConfig.nativeCurrency.symbol})`
-          : ''
-        console.log(`  ${i + 1}. ${step.type}${gasNote}`)
-      }
+  if (options.dryRun) {
+    if (result.simulation) {
+      console.log('Dry run (simulating on-chain, nothing is sent)')
       console.log('')
-      return
+      printSimulation(result.simulation)
     }
-
-    console.log(`Step 3: Executing transfer (${quote.steps.length} transaction(s))...`)
-
-    const result = await executeStargateTransfer(
-      walletClient,
-      publicClient,
-      quote,
-      (stepIndex, stepType, status) => {
-        const stepNum = stepIndex + 1
-        if (status === 'pending') {
-          console.log(`  → Step ${stepNum}/${quote.steps.length}: ${stepType}...`)
-        } else {
-          console.log(`  ✓ Step ${stepNum}/${quote.steps.length}: ${stepType} confirmed`)
-        }
-      }
-    )
-
     if (!result.success) {
-      console.error(`\nTransfer failed: ${result.error}`)
-      if (result.txHashes.length > 0) {
-        console.error(`Completed transactions: ${result.txHashes.join(', ')}`)
-      }
-      process.exit(1)
+      exitWithError('TRANSACTION_FAILED', `Dry run failed: ${plan.isMultiHop ? 'leg 1 would not succeed' : 'not every step would succeed'}. Nothing was sent.`)
     }
 
-    console.log('')
-    console.log('Results')
     console.log('─'.repeat(50))
-
-    // Display all transaction hashes
-    for (let i = 0; i < result.txHashes.length; i++) {
-      const hash = result.txHashes[i]
-      const stepType = quote.steps[i]?.type || 'tx'
-      console.log(`${stepType} TX:   ${hash}`)
+    console.log('Dry run complete. Remove --dry-run flag to execute.')
+    console.log('')
+    // Only the first leg of EVM and Solana transfers can be simulated
+    if (!result.simulation || plan.isMultiHop) {
+      printDryRunSteps(result.quote)
     }
+    printJsonResult({
+      dryRun: true,
+      legs: result.quote.legs.map((leg) => ({ source: leg.srcConfig.chainKey, destination: leg.dstConfig.chainKey, quote: leg.quote })),
+      simulation: result.simulation,
+    })
+    return
+  }
 
-    // Display tracking links
-    if (result.finalTxHash) {
-      console.log('')
-      console.log(`LayerZero:    https://layerzeroscan.com/tx/${result.finalTxHash}`)
+  if (result.delivery) {
+    printDelivery(result.delivery, dstConfig)
+  }
+  if (!result.success) {
+    exitTransferFailed(result)
+  }
+
+  console.log('')
+  console.log('Results')
+  console.log('─'.repeat(50))
+
+  for (let i = 0; i < result.legs.length; i++) {
+    const { leg, txHashes } = result.legs[i]
+    const indent = plan.isMultiHop ? '  ' : ''
+    if (plan.isMultiHop) {
+      console.log(`Leg ${i + 1} (${leg.srcConfig.name} → ${leg.dstConfig.name}):`)
+    }
+    for (let j = 0; j < txHashes.length; j++) {
+      console.log(`${indent}${leg.quote.steps[j]?.type || 'tx'} TX:   ${txHashes[j]}`)
     }
+  }
 
+  // Display tracking links
+  if (result.finalTxHash) {
     console.log('')
-    console.log('Status: Pending (check LayerZero scan for cross-chain delivery)')
-    console.log('')
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(`Transaction failed: ${error.message}`)
+    if (!plan.isMultiHop && srcConfig.chainType === 'solana') {
+      console.log(`Solscan:      https://solscan.io/tx/${result.finalTxHash}`)
+    } else if (!plan.isMultiHop && srcConfig.chainType === 'tron') {
+      console.log(`Tronscan:     https://tronscan.org/#/transaction/${result.finalTxHash}`)
     }
-    process.exit(1)
+    console.log(`LayerZero:    https://layerzeroscan.com/tx/${result.finalTxHash}`)
   }
+
+  console.log('')
+  console.log(result.delivery ? 'Status: Delivered' : 'Status: Pending (check LayerZero scan for cross-chain delivery)')
+  console.log('')
+
+  const finalLeg = result.legs[result.legs.length - 1].leg
+  printTransferResult({
+    journalId: result.journalId,
+    srcConfig,
+    dstConfig,
+    sender: senderAddress,
+    recipient: recipientAddress,
+    recipientContact: options.toContact,
+    amountLD,
+    dstAmount: finalLeg.quote.dstAmount,
+    txHashes: result.txHashes,
+    finalTxHash: result.finalTxHash,
+    delivery: result.delivery,
+    legs: plan.isMultiHop
+      ? result.legs.map((done) => ({
+        source: done.leg.srcConfig.chainKey,
+        destination: done.leg.dstConfig.chainKey,
+        txHashes: done.txHashes,
+        finalTxHash: done.finalTxHash,
+      }))
+      : undefined,
+  })
 }
 
 /**
- * Execute a transfer from Solana
+ * Write the quote's steps as unsigned transactions for an offline signer
+ *
+ * No signing key is needed: the sender comes from --from (or the configured
+ * signer's address). Sign the file offline, then submit it with `broadcast`.
  */
-async function executeSolanaTransfer(
+async function exportUnsignedTransfer(
   srcConfig: ReturnType<typeof getChainConfig>,
   dstConfig: ReturnType<typeof getChainConfig>,
   amount: string,
-  options: { to?: string; slippage: string; dryRun: boolean }
+  filePath: string,
+  options: TransferOptions
 ) {
-  const solanaPrivateKey = process.env.SOLANA_PRIVATE_KEY
-  if (!solanaPrivateKey) {
-    console.error('Error: SOLANA_PRIVATE_KEY environment variable is required for Solana transfers')
-    console.error('       Key should be base58 encoded (Solana CLI format) or 64-byte hex.')
-    process.exit(1)
+  let senderAddress = options.from
+  if (!senderAddress) {
+    const privateKey = await loadSignerKeyOrExit(srcConfig.chainType, options.keystore, options.account)
+    senderAddress = privateKey
+      ? deriveSignerAddress(srcConfig.chainType, privateKey)
+      : getActiveProfile().sender?.[srcConfig.chainType]
+    if (!senderAddress) {
+      exitWithError('INVALID_INPUT', '--from <address> is required with --export-unsigned when no signer or profile sender is configured')
+    }
   }
+  const recipientAddress = options.to || senderAddress
 
-  // Create Solana connection and keypair
-  const connection = createSolanaConnection(srcConfig.rpcUrl)
-  const keypair = createSolanaKeypair(solanaPrivateKey)
-  const senderAddress = keypair.publicKey.toBase58()
+  console.log('')
+  console.log('PYUSD Unsigned Transfer Export (via Stargate)')
+  console.log('─'.repeat(50))
+  console.log(`From:       ${srcConfig.name} → ${dstConfig.name}`)
+  console.log(`Sender:     ${truncateAddress(senderAddress)}`)
+  console.log(`Recipient:  ${formatRecipient(recipientAddress, options.toContact)}`)
+  console.log(`Amount:     ${amount} ${srcConfig.symbol}`)
+  console.log('')
 
-  // Resolve recipient address
-  const recipientAddress = options.to || resolveSolanaAddress()
+  let exported: BridgeUnsignedExport
+  try {
+    exported = await new PyusdBridge().exportUnsigned({
+      source: srcConfig.chainKey,
+      destination: dstConfig.chainKey,
+      amount: parseAmount(amount),
+      sender: senderAddress,
+      recipient: recipientAddress,
+      slippagePercent: Number.parseFloat(options.slippage),
+      route: options.route,
+      direct: options.direct,
+      approval: options.approval,
+      fees: getFeeFlagOptions(options).fees,
+      onProgress: printTransferProgress(1),
+    })
+    writeUnsignedTransfer(filePath, exported.file)
+  } catch (error) {
+    exitWithCaughtError(error, 'ERROR', 'Export failed')
+  }
 
-  // Calculate amounts in base units
-  const amountLD = parseAmount(amount)
-  const slippagePercent = Number.parseFloat(options.slippage)
-  const minAmountLD = BigInt(calculateMinAmount(amountLD.toString(), slippagePercent))
+  const { file } = exported
+  for (let i = 0; i < file.steps.length; i++) {
+    const step = file.steps[i]
+    const details = step.transaction
+      ? ` (nonce ${step.transaction.nonce}, gas ${step.transaction.gas}${step.gasEstimated ? '' : ' fallback'})`
+      : ''
+    console.log(`  ${i + 1}. ${step.type}${details}`)
+  }
+  console.log('')
+  console.log(`✓ Wrote ${file.steps.length} unsigned transaction(s) to ${filePath}`)
+  console.log('')
+  console.log('Sign each step offline, put the result in its "signed" field, then run:')
+  console.log(`  pyusd-lz broadcast ${filePath}`)
+  if (srcConfig.chainType === 'solana') {
+    console.log('')
+    console.log('Note: Solana messages embed a recent blockhash and expire after about a minute.')
+  }
+  console.log('')
+
+  printJsonResult({
+    file: filePath,
+    source: srcConfig.chainKey,
+    destination: dstConfig.chainKey,
+    sender: file.srcAddress,
+    recipient: file.dstAddress,
+    amount: exported.quote.amountLD,
+    dstAmount: file.dstAmount,
+    decimals: PYUSD_DECIMALS,
+    steps: file.steps,
+  })
+}
+
+/**
+ * Write the quote's steps as a Safe Transaction Builder batch
+ *
+ * The Safe is the sender, so the quote is requested with the Safe as
+ * srcAddress. With several steps, the MultiSendCallOnly encoding is written
+ * alongside for proposals made outside the Transaction Builder app.
+ */
+async function exportSafeBatch(
+  srcConfig: ReturnType<typeof getChainConfig>,
+  dstConfig: ReturnType<typeof getChainConfig>,
+  amount: string,
+  safeAddress: string,
+  filePath: string,
+  options: TransferOptions
+) {
+  // A Safe address on the source chain is not necessarily controlled on the destination
+  if (!options.to) {
+    exitWithError('INVALID_INPUT', '--to is required with --safe (the Safe may not exist on the destination chain)')
+  }
 
   console.log('')
-  console.log('PYUSD Cross-Chain Transfer from Solana (via Stargate)')
+  console.log('PYUSD Safe Transfer Batch (via Stargate)')
   console.log('─'.repeat(50))
   console.log(`From:       ${srcConfig.name} → ${dstConfig.name}`)
-  console.log(`Sender:     ${truncateAddress(senderAddress)}`)
-  console.log(`Recipient:  ${truncateAddress(recipientAddress)}`)
-  console.log(`Amount:     ${amount} PYUSD`)
+  console.log(`Safe:       ${truncateAddress(safeAddress)}`)
+  console.log(`Recipient:  ${formatRecipient(options.to, options.toContact)}`)
+  console.log(`Amount:     ${amount} ${srcConfig.symbol}`)
   console.log('')
 
+  let result: BridgeSafeBatch
+  let multiSendPath: string | undefined
   try {
-    // Step 1: Get quote from Stargate
-    // Note: Balance check for Solana SPL tokens would require additional setup
-    console.log('Step 1: Getting quote from Stargate...')
-
-    const quoteResult = await fetchStargateQuote({
-      srcToken: srcConfig.tokenAddress,
-      dstToken: dstConfig.tokenAddress,
-      srcAddress: senderAddress,
-      dstAddress: recipientAddress,
-      srcChainKey: srcConfig.chainKey,
-      dstChainKey: dstConfig.chainKey,
-      srcAmount: amountLD.toString(),
-      dstAmountMin: minAmountLD.toString(),
+    result = await new PyusdBridge().buildSafeBatch({
+      source: srcConfig.chainKey,
+      destination: dstConfig.chainKey,
+      amount: parseAmount(amount),
+      safe: safeAddress,
+      recipient: options.to,
+      slippagePercent: Number.parseFloat(options.slippage),
+      route: options.route,
+      direct: options.direct,
+      approval: options.approval,
+      onProgress: printTransferProgress(1),
     })
 
-    if (!quoteResult.success || !quoteResult.bestQuote) {
-      console.error(`Failed to get quote: ${quoteResult.error || 'No routes available'}`)
-      process.exit(1)
+    writeFileSync(filePath, JSON.stringify(result.batch, null, 2) + '\n')
+    if (result.multiSend) {
+      multiSendPath = filePath.replace(/(\.json)?$/, '.multisend.json')
+      writeFileSync(multiSendPath, JSON.stringify({ ...result.multiSend, value: result.multiSend.value.toString() }, null, 2) + '\n')
     }
+  } catch (error) {
+    exitWithCaughtError(error, 'ERROR', 'Failed to build Safe batch')
+  }
 
-    const quote = quoteResult.bestQuote
-    console.log(`  ✓ Quote received: ${quote.steps.length} step(s)`)
-    console.log(`  ✓ Will receive: ${formatAmount(BigInt(quote.dstAmount))} PYUSD`)
-    console.log('')
+  const { quote } = result.quote.legs[0]
+  const { decimals, symbol } = srcConfig.nativeCurrency
+  console.log(`  ✓ Native: ${formatUnits(result.nativeBalance, decimals)} ${symbol} (fee ${formatUnits(result.nativeFee, decimals)} ${symbol})`)
+  console.log('')
+  for (let i = 0; i < quote.steps.length; i++) {
+    console.log(`  ${i + 1}. ${quote.steps[i].type} → ${quote.steps[i].transaction.to}`)
+  }
+  console.log('')
+  console.log(`✓ Wrote Safe Transaction Builder batch to ${filePath}`)
+  if (multiSendPath) {
+    console.log(`✓ Wrote MultiSendCallOnly transaction to ${multiSendPath} (operation: DELEGATECALL)`)
+  }
 
-    // Step 2: Execute transfer (or dry run)
-    if (options.dryRun) {
-      console.log('Step 2: Dry run (skipping actual transfer)')
-      console.log('  ✓ Quote simulation successful')
-      console.log('')
-      console.log('─'.repeat(50))
-      console.log('Dry run complete. Remove --dry-run flag to execute.')
-      console.log('')
-      console.log('Steps that would be executed:')
-      for (let i = 0; i < quote.steps.length; i++) {
-        const step = quote.steps[i]
-        console.log(`  ${i + 1}. ${step.type}`)
-      }
-      console.log('')
-      return
-    }
+  console.log('')
+  console.log('Import the batch in the Safe app (Apps → Transaction Builder), then collect signatures.')
+  console.log('Execute it promptly: the quote\'s bridge fee can change over time.')
+  console.log('')
 
-    console.log(`Step 2: Executing transfer (${quote.steps.length} transaction(s))...`)
+  printJsonResult({
+    file: filePath,
+    multiSendFile: multiSendPath,
+    source: srcConfig.chainKey,
+    destination: dstConfig.chainKey,
+    safe: safeAddress,
+    recipient: options.to,
+    amount: result.quote.amountLD,
+    dstAmount: quote.dstAmount,
+    decimals: PYUSD_DECIMALS,
+    nativeFee: result.nativeFee,
+    quote,
+  })
+}
 
-    const result = await executeSolanaStargateTransfer(
-      connection,
-      keypair,
-      quote,
-      (stepIndex, stepType, status) => {
-        const stepNum = stepIndex + 1
-        if (status === 'pending') {
-          console.log(`  → Step ${stepNum}/${quote.steps.length}: ${stepType}...`)
-        } else {
-          console.log(`  ✓ Step ${stepNum}/${quote.steps.length}: ${stepType} confirmed`)
-        }
-      }
-    )
+/**
+ * Resume a journaled transfer from its first incomplete step
+ *
+ * The bridge re-checks every submitted step on-chain, re-quotes if the stored
+ * quote is stale, then verifies and executes the remaining steps.
+ */
+async function resumeTransfer(
+  id: string,
+  options: FeeFlags & Pick<TransferOptions, 'keystore' | 'account'>
+    & { forceResend: boolean }
+) {
+  let journal: TransferJournal
+  try {
+    journal = loadJournal(id)
+  } catch (error) {
+    exitWithError('NOT_FOUND', error)
+  }
 
-    if (!result.success) {
-      console.error(`\nTransfer failed: ${result.error}`)
-      if (result.signatures.length > 0) {
-        console.error(`Completed transactions: ${result.signatures.join(', ')}`)
-      }
-      process.exit(1)
-    }
+  const { srcConfig, dstConfig } = resolveChainConfigsForTransfer(journal.srcChainKey, journal.dstChainKey)
 
-    console.log('')
-    console.log('Results')
-    console.log('─'.repeat(50))
+  console.log('')
+  console.log(`Resuming Transfer ${journal.id}`)
+  console.log('─'.repeat(50))
+  console.log(`From:       ${srcConfig.name} → ${dstConfig.name}`)
+  console.log(`Sender:     ${truncateAddress(journal.srcAddress)}`)
+  console.log(`Recipient:  ${truncateAddress(journal.dstAddress)}`)
+  console.log(`Amount:     ${journal.amount} ${srcConfig.symbol}`)
+  console.log(`Started:    ${new Date(journal.createdAt).toLocaleString()}`)
+  console.log('')
 
-    // Display all transaction signatures
-    for (let i = 0; i < result.signatures.length; i++) {
-      const sig = result.signatures[i]
-      const stepType = quote.steps[i]?.type || 'tx'
-      console.log(`${stepType} TX:   ${sig}`)
-    }
+  if (journal.status === 'completed') {
+    console.log('Transfer already completed.')
+    printJournalSteps(journal)
+    printJournalResult(journal)
+    return
+  }
 
-    // Display tracking links
-    if (result.finalSignature) {
-      console.log('')
-      console.log(`Solscan:      https://solscan.io/tx/${result.finalSignature}`)
-      console.log(`LayerZero:    https://layerzeroscan.com/tx/${result.finalSignature}`)
-    }
+  const privateKey = await loadSignerKeyOrExit(srcConfig.chainType, options.keystore, options.account)
+  if (!privateKey) {
+    exitWithError('SIGNER_REQUIRED', `${describeSignerSource(srcConfig.chainType)} is required to resume transfers from ${srcConfig.name}`)
+  }
 
-    console.log('')
-    console.log('Status: Pending (check LayerZero scan for cross-chain delivery)')
-    console.log('')
+  console.log('Checking on-chain state...')
+  let result: BridgeResumeResult
+  try {
+    result = await new PyusdBridge({ signers: { [srcConfig.chainType]: privateKey } }).resume(journal, {
+      forceResend: options.forceResend,
+      ...getFeeFlagOptions(options),
+      onProgress: printTransferProgress(1),
+    })
   } catch (error) {
-    if (error instanceof Error) {
-      console.error(`Transaction failed: ${error.message}`)
-    }
-    process.exit(1)
+    exitWithCaughtError(error, 'TRANSACTION_FAILED', 'Transaction failed')
+  }
+
+  if (!result.success) {
+    exitTransferFailed({ error: result.error, legs: [], journalId: journal.id })
+  }
+
+  console.log('')
+  printJournalSteps(result.journal)
+  printJournalResult(result.journal)
+}
+
+/**
+ * Print a journal's transaction results and tracking link
+ */
+function printJournalSteps(journal: TransferJournal) {
+  console.log('Results')
+  console.log('─'.repeat(50))
+
+  for (const step of journal.steps) {
+    console.log(`${step.type} TX:   ${step.txHash || '(none)'}`)
   }
+
+  const bridgeTx = journal.steps.find((step) => step.type === 'bridge')?.txHash
+    || journal.steps[journal.steps.length - 1]?.txHash
+  if (bridgeTx) {
+    console.log('')
+    console.log(`LayerZero:    https://layerzeroscan.com/tx/${bridgeTx}`)
+  }
+
+  console.log('')
+  console.log('Status: Pending (check LayerZero scan for cross-chain delivery)')
+  console.log('')
+}
+
+/**
+ * Write the JSON result of a resumed (or already completed) transfer
+ */
+function printJournalResult(journal: TransferJournal) {
+  const { srcConfig, dstConfig } = resolveChainConfigsForTransfer(journal.srcChainKey, journal.dstChainKey)
+  const txHashes = journal.steps.flatMap((step) => (step.txHash ? [step.txHash] : []))
+
+  printTransferResult({
+    journalId: journal.id,
+    srcConfig,
+    dstConfig,
+    sender: journal.srcAddress,
+    recipient: journal.dstAddress,
+    amountLD: parseAmount(journal.amount),
+    dstAmount: journal.quote.dstAmount,
+    txHashes,
+    finalTxHash: journal.steps.find((step) => step.type === 'bridge')?.txHash || txHashes[txHashes.length - 1],
+  })
 }
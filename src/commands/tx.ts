@@ -0,0 +1,158 @@
+import { Command } from '@commander-js/extra-typings'
+import { formatGwei, type Hex, isHash, WaitForTransactionReceiptTimeoutError } from 'viem'
+
+import { getChainConfig, isEvmChain } from '../lib/chains'
+import { createPublicClientForChain, createWalletClientForChain, getAddressFromPrivateKey } from '../lib/client'
+import {
+  DEFAULT_BUMP_PERCENT,
+  parseBumpPercent,
+  parseGweiOption,
+  RECEIPT_TIMEOUT_MS,
+  replaceTransaction,
+  type TransactionFees,
+} from '../lib/fees'
+import { findJournalStepByTxHash, updateJournalStep } from '../lib/journal'
+import { collectKeystoreNames, describeSignerSource, loadSignerKey, parseAccountIndex } from '../lib/signers'
+import { exitWithCaughtError, exitWithError, printJsonResult } from '../utils/output'
+
+type ReplaceOptions = {
+  bump: number
+  maxFeePerGas?: bigint
+  priorityFee?: bigint
+  keystore: string[]
+  account?: number
+}
+
+function formatFees(fees: TransactionFees): string {
+  if ('gasPrice' in fees) {
+    return `gas price ${formatGwei(fees.gasPrice)} gwei`
+  }
+  return `max fee ${formatGwei(fees.maxFeePerGas)} gwei, priority fee ${formatGwei(fees.maxPriorityFeePerGas)} gwei`
+}
+
+/**
+ * Replace a pending transaction with a faster copy or a cancellation
+ *
+ * A journaled transfer step that submitted the transaction is updated, so
+ * `transfer resume` follows the replacement.
+ */
+async function replacePendingTransaction(
+  mode: 'speedup' | 'cancel',
+  chain: string,
+  hash: string,
+  options: ReplaceOptions
+) {
+  const chainConfig = getChainConfig(chain)
+  if (!isEvmChain(chainConfig)) {
+    exitWithError('INVALID_INPUT', `transactions can only be replaced on EVM chains (${chainConfig.name} is ${chainConfig.chainType})`)
+  }
+
+  if (!isHash(hash)) {
+    exitWithError('INVALID_INPUT', `"${hash}" is not a valid transaction hash`)
+  }
+
+  let privateKey: string | undefined
+  try {
+    privateKey = await loadSignerKey('evm', options.keystore, options.account)
+  } catch (error) {
+    exitWithError('ERROR', error)
+  }
+  if (!privateKey) {
+    exitWithError('SIGNER_REQUIRED', `${describeSignerSource('evm')} is required to replace a transaction`)
+  }
+
+  const publicClient = createPublicClientForChain(chainConfig)
+  const walletClient = createWalletClientForChain(chainConfig, privateKey as `0x${string}`)
+
+  console.log('')
+  console.log(`${mode === 'speedup' ? 'Speed Up' : 'Cancel'} Transaction on ${chainConfig.name}`)
+  console.log('─'.repeat(50))
+  console.log(`Sender:       ${getAddressFromPrivateKey(privateKey as `0x${string}`)}`)
+  console.log(`Transaction:  ${hash}`)
+  console.log('')
+
+  try {
+    const replacement = await replaceTransaction(walletClient, publicClient, hash as Hex, {
+      mode,
+      percent: options.bump,
+      fees: { maxFeePerGas: options.maxFeePerGas, maxPriorityFeePerGas: options.priorityFee },
+    })
+    console.log(`→ Replacement submitted with nonce ${replacement.nonce} (${formatFees(replacement.fees)})`)
+    console.log(`  Hash: ${replacement.hash}`)
+
+    const journaled = findJournalStepByTxHash(hash)
+    if (journaled && mode === 'speedup') {
+      updateJournalStep(journaled.journal, journaled.stepIndex, { status: 'submitted', txHash: replacement.hash })
+      console.log(`  Updated transfer journal ${journaled.journal.id}`)
+    }
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: replacement.hash, timeout: RECEIPT_TIMEOUT_MS })
+    if (receipt.status === 'reverted') {
+      throw new Error(`Transaction ${replacement.hash} reverted`)
+    }
+
+    // Only a mined cancellation guarantees the original can no longer land
+    if (journaled && mode === 'cancel') {
+      updateJournalStep(journaled.journal, journaled.stepIndex, {
+        status: 'failed',
+        txHash: undefined,
+        error: `Transaction ${hash} was cancelled`,
+      })
+      console.log(`  Updated transfer journal ${journaled.journal.id}`)
+    }
+
+    console.log(`✓ ${mode === 'speedup' ? 'Replacement' : 'Cancellation'} mined in block ${receipt.blockNumber}`)
+    console.log('')
+
+    printJsonResult({
+      mode,
+      chain: chainConfig.chainKey,
+      originalHash: hash,
+      replacementHash: replacement.hash,
+      nonce: replacement.nonce,
+      fees: replacement.fees,
+      blockNumber: receipt.blockNumber,
+      journalId: journaled?.journal.id,
+    })
+  } catch (error) {
+    if (error instanceof WaitForTransactionReceiptTimeoutError) {
+      exitWithError('TRANSACTION_FAILED', 'Replacement is still pending', 'Run the command again to bump fees further.')
+    }
+    exitWithCaughtError(error, 'TRANSACTION_FAILED', `Failed to ${mode === 'speedup' ? 'speed up' : 'cancel'} transaction`)
+  }
+}
+
+/**
+ * Add the options shared by the replacement subcommands
+ */
+function withReplaceOptions(command: Command<[string, string]>) {
+  return command
+    .option('--bump <percent>', 'Fee increase over the pending transaction', parseBumpPercent, DEFAULT_BUMP_PERCENT)
+    .option('--max-fee-per-gas <gwei>', 'Minimum max fee per gas in gwei for the replacement', parseGweiOption)
+    .option('--priority-fee <gwei>', 'Minimum priority fee in gwei for the replacement', parseGweiOption)
+    .option('-k, --keystore <name>', 'Sign with an encrypted keystore', collectKeystoreNames, [] as string[])
+    .option('--account <index>', 'HD account index derived from MNEMONIC', parseAccountIndex)
+}
+
+const speedupCommand = withReplaceOptions(
+  new Command('speedup')
+    .description('Re-send a pending transaction with the same nonce and higher fees')
+    .argument('<chain>', 'EVM chain the transaction was sent on')
+    .argument('<hash>', 'Pending transaction hash')
+).action(async (chain, hash, options) => {
+  await replacePendingTransaction('speedup', chain, hash, options)
+})
+
+const cancelCommand = withReplaceOptions(
+  new Command('cancel')
+    .description('Replace a pending transaction with an empty transfer to yourself')
+    .argument('<chain>', 'EVM chain the transaction was sent on')
+    .argument('<hash>', 'Pending transaction hash')
+).action(async (chain, hash, options) => {
+  await replacePendingTransaction('cancel', chain, hash, options)
+})
+
+export const txCommand = new Command('tx')
+  .description('Speed up or cancel stuck EVM transactions')
+  .addCommand(speedupCommand)
+  .addCommand(cancelCommand)
@@ -1,11 +1,8 @@
-import { statSync, writeFileSync } from 'node:fs'
-import { dirname, join } from 'node:path'
-import { fileURLToPath } from 'node:url'
+import { existsSync, readFileSync, statSync, writeFileSync } from 'node:fs'
 import { Command } from '@commander-js/extra-typings'
 
-const __dirname = dirname(fileURLToPath(import.meta.url))
-const configDir = join(__dirname, '../../config')
-const defaultConfigPath = join(configDir, 'chains.json')
+import { CONFIG_ENV_VAR, DEFAULT_CONFIG_PATH, getDefaultEndpointId, getDefaultOftAddress } from '../lib/chains'
+import { exitWithError, printJsonResult } from '../utils/output'
 
 const STARGATE_CHAINS_URL = 'https://stargate.finance/api/v1/chains'
 const STARGATE_TOKENS_URL = 'https://stargate.finance/api/v1/tokens'
@@ -47,6 +44,8 @@ export interface ChainConfig {
     decimals: number
   }
   rpcUrl?: string
+  eid?: number
+  oftAddress?: string
 }
 
 interface ChainsConfig {
@@ -59,11 +58,11 @@ interface ChainsConfig {
 
 export const updateChainsCommand = new Command('update-chains')
   .description('Fetch PYUSD/PYUSD0 chain config from Stargate API')
-  .option('--output <file>', `Output file path (default: config/chains.json)`)
+  .option('--output <file>', `Output file path (default: --config, $${CONFIG_ENV_VAR} or config/chains.json)`)
   .option('--include-non-bridgeable', 'Include tokens that cannot be bridged via Stargate', true)
   .option('--include-non-evm', 'Include non-EVM chains', true)
   .action(async (options) => {
-    const outputPath = options.output || defaultConfigPath
+    const outputPath = options.output || process.env[CONFIG_ENV_VAR] || DEFAULT_CONFIG_PATH
 
     console.log('Fetching chain data from Stargate API...')
     console.log('')
@@ -104,6 +103,12 @@ export const updateChainsCommand = new Command('update-chains')
         chainLookup.set(chain.chainKey, chain)
       }
 
+      // Keep locally added fields (RPC URLs, direct OFT settings) from the existing file,
+      // falling back to the built-in endpoint IDs and OFT adapters
+      const existing = existsSync(outputPath)
+        ? (JSON.parse(readFileSync(outputPath, 'utf-8')) as ChainsConfig).chains
+        : {}
+
       // Build config
       const config: ChainsConfig = {
         source: 'stargate.finance/api/v1',
@@ -145,6 +150,9 @@ export const updateChainsCommand = new Command('update-chains')
             symbol: chain.nativeCurrency.symbol,
             decimals: chain.nativeCurrency.decimals,
           },
+          rpcUrl: existing[token.chainKey]?.rpcUrl,
+          eid: existing[token.chainKey]?.eid ?? getDefaultEndpointId(token.chainKey),
+          oftAddress: existing[token.chainKey]?.oftAddress ?? getDefaultOftAddress(token.chainKey),
         }
 
         if (token.symbol === 'PYUSD') {
@@ -179,10 +187,9 @@ export const updateChainsCommand = new Command('update-chains')
       console.log(`✓ Saved to: ${outputPath}`)
       console.log(`✓ File size: ${sizeKB} KB`)
       console.log('')
+
+      printJsonResult({ path: outputPath, pyusd: pyusdChains, pyusd0: pyusd0Chains })
     } catch (error) {
-      if (error instanceof Error) {
-        console.error(`Failed to fetch data: ${error.message}`)
-      }
-      process.exit(1)
+      exitWithError('NETWORK_ERROR', `Failed to fetch data: ${error instanceof Error ? error.message : error}`)
     }
   })
@@ -0,0 +1,53 @@
+import { Command, Option } from '@commander-js/extra-typings'
+
+import { derivePrivateKey, getDerivationPath } from '../lib/hd-wallet'
+import { prompt } from '../lib/prompt'
+import { deriveSignerAddress, MNEMONIC_ENV_VAR } from '../lib/signers'
+import type { ChainType } from '../types/index'
+import { exitWithError, printJsonResult } from '../utils/output'
+
+const CHAIN_TYPES: ChainType[] = ['evm', 'solana', 'tron']
+
+const deriveCommand = new Command('derive')
+  .description(`List addresses derived from the ${MNEMONIC_ENV_VAR} (prompts if not set)`)
+  .addOption(new Option('-t, --type <type>', 'Chain type').choices(['evm', 'solana', 'tron', 'all'] as const).default('all' as const))
+  .option('-n, --count <n>', 'Number of accounts to derive per chain type', '5')
+  .option('--start <index>', 'First account index', '0')
+  .action(async (options) => {
+    const count = Number.parseInt(options.count, 10)
+    const start = Number.parseInt(options.start, 10)
+    if (!Number.isInteger(count) || count < 1 || !Number.isInteger(start) || start < 0) {
+      exitWithError('INVALID_INPUT', '--count must be a positive integer and --start a non-negative integer')
+    }
+
+    try {
+      const mnemonic = process.env[MNEMONIC_ENV_VAR] || await prompt('Mnemonic: ', true)
+      const chainTypes = options.type === 'all' ? CHAIN_TYPES : [options.type]
+
+      const accounts: { chainType: ChainType; index: number; path: string; address: string }[] = []
+
+      console.log('')
+      for (const chainType of chainTypes) {
+        console.log(`${chainType.toUpperCase()} accounts`)
+        console.log('─'.repeat(80))
+        for (let index = start; index < start + count; index++) {
+          const address = deriveSignerAddress(chainType, derivePrivateKey(mnemonic, chainType, index))
+          const path = getDerivationPath(chainType, index)
+          console.log(`${String(index).padEnd(4)} ${path.padEnd(24)} ${address}`)
+          accounts.push({ chainType, index, path, address })
+        }
+        console.log('')
+      }
+
+      console.log('Use an account with --account <index> on balance, quote and transfer.')
+      console.log('')
+
+      printJsonResult({ accounts })
+    } catch (error) {
+      exitWithError('ERROR', error)
+    }
+  })
+
+export const walletsCommand = new Command('wallets')
+  .description('Inspect HD wallet accounts derived from a mnemonic')
+  .addCommand(deriveCommand)
@@ -1,17 +1,44 @@
 // Re-export library functions for programmatic use
 
+// Bridge facade
+export { PyusdBridge, DEFAULT_SLIPPAGE_PERCENT } from './lib/bridge'
+
+// Typed errors
+export {
+  PyusdError,
+  ConfigNotFoundError,
+  InvalidConfigError,
+  UnsupportedChainError,
+  InvalidInputError,
+  MissingKeyError,
+  QuoteUnavailableError,
+  InsufficientBalanceError,
+  CalldataMismatchError,
+  TransactionRevertedError,
+  TransactionPendingError,
+  DeliveryTimeoutError,
+} from './lib/errors'
+
 // Chain configuration
 export {
   getChainConfig,
   getSupportedChains,
   getViemChain,
+  getChainConfigs,
   CHAIN_CONFIGS,
   getPyusdChains,
   getPyusd0Chains,
   resolveChainConfigsForTransfer,
   isEvmChain,
   isSolanaChain,
+  isTronChain,
+  ChainRegistry,
+  getDefaultRegistry,
+  setDefaultRegistry,
+  DEFAULT_CONFIG_PATH,
+  CONFIG_ENV_VAR,
 } from './lib/chains'
+export type { ChainConfigInput, ChainConfigFile, ChainRegistryOptions } from './lib/chains'
 
 // EVM Client utilities
 export {
@@ -26,16 +53,115 @@ export {
   createSolanaKeypair,
   getSolanaAddressFromPrivateKey,
   executeSolanaTransaction,
+  deserializeSolanaTransaction,
 } from './lib/solana-client'
 
+// Tron Client utilities
+export {
+  createTronWeb,
+  getTronAddressFromPrivateKey,
+  isTronAddress,
+  toTronBase58Address,
+  executeTronTransaction,
+  getTronTokenBalance,
+} from './lib/tron-client'
+
 // Stargate API
 export {
   fetchStargateQuote,
   executeStargateTransfer,
   executeSolanaStargateTransfer,
+  executeTronStargateTransfer,
   calculateMinAmount,
+  getQuoteNativeValue,
+  getQuoteRouteName,
+  sortQuotesByReceived,
+  selectQuote,
 } from './lib/stargate'
 
+// Costs
+export { getQuoteCostBreakdown, estimateQuoteStepGas, getNativeUsdPrice, getAllInUsd, rankQuotesByNetUsd } from './lib/costs'
+export {
+  fetchDirectOftQuote,
+  executeDirectOftTransfer,
+  getOftAddress,
+  getEndpointId,
+  recipientToBytes32,
+  buildExtraOptions,
+  DIRECT_OFT_ROUTE,
+} from './lib/oft'
+export { verifyQuoteCalldata, verifyNativeFee, getTrustedContracts, decodeEvmSend, decodeSolanaSend } from './lib/calldata'
+export {
+  prepareApprovals,
+  getSpenderAllowances,
+  getKnownSpenders,
+  decodeApproveStep,
+  buildRevokeTransaction,
+  APPROVAL_POLICIES,
+} from './lib/allowances'
+export { simulateEvmSteps, simulateSolanaSteps } from './lib/simulation'
+export { executeRouteLeg } from './lib/routing'
+export {
+  readBatchFile,
+  readBatchResults,
+  writeBatchResults,
+  validateBatchRow,
+  parseCsv,
+  BATCH_COLUMNS,
+} from './lib/batch'
+export { resolveFees, bumpFees, sendWithFees, replaceTransaction, DEFAULT_BUMP_PERCENT } from './lib/fees'
+
+// Balances
+export { getTokenBalance, getPortfolioBalances } from './lib/balances'
+
+// Keystores and signers
+export {
+  encryptKeystore,
+  decryptKeystore,
+  saveKeystore,
+  loadKeystore,
+  listKeystores,
+  unlockKeystore,
+} from './lib/keystore'
+export {
+  loadSignerKey,
+  resolveEnvSignerKey,
+  deriveSignerAddress,
+  SIGNER_ENV_VARS,
+  MNEMONIC_ENV_VAR,
+} from './lib/signers'
+
+// HD wallets
+export { derivePrivateKey, getDerivationPath } from './lib/hd-wallet'
+
+// Transfer journal
+export {
+  createJournal,
+  loadJournal,
+  listJournals,
+  getJournalDir,
+} from './lib/journal'
+
+// Offline signing
+export {
+  buildUnsignedEvmSteps,
+  buildUnsignedSolanaSteps,
+  readUnsignedTransfer,
+  writeUnsignedTransfer,
+  verifySignedEvmStep,
+  broadcastEvmTransaction,
+  assembleSignedSolanaTransaction,
+  broadcastSolanaTransaction,
+} from './lib/offline-signing'
+
+// Safe multisig
+export {
+  getSafeInfo,
+  buildSafeTransactionBatch,
+  encodeMultiSend,
+  MULTI_SEND_CALL_ONLY_ADDRESS,
+} from './lib/safe'
+
 // Formatting utilities
 export {
   formatAmount,
@@ -44,13 +170,55 @@ export {
   PYUSD_DECIMALS,
 } from './utils/format'
 
+// JSON output and exit codes
+export { toJson } from './utils/output'
+export { EXIT_CODES } from './lib/errors'
+
 // Types
 export type { ChainConfig } from './types/index'
+export type {
+  PyusdBridgeOptions,
+  BridgeSigners,
+  BridgeBalance,
+  BridgeQuoteRequest,
+  BridgeQuote,
+  BridgeTransferRequest,
+  BridgeTransferResult,
+  BridgeLegResult,
+  BridgeProgressEvent,
+  BridgeProgressCallback,
+  DeliveryResult,
+  TrackMessageOptions,
+  BridgeExportRequest,
+  BridgeUnsignedExport,
+  BridgeSafeBatchRequest,
+  BridgeSafeBatch,
+  BridgeResumeOptions,
+  BridgeResumeResult,
+} from './lib/bridge'
 export type {
   StargateQuoteParams,
   StargateQuote,
   StargateQuoteResult,
+  NativeUsdPrice,
   StargateTransferResult,
   SolanaTransferResult,
+  TronTransferResult,
   StargateStep,
+  TransferStepCallback,
+  TransferStepStatus,
 } from './lib/stargate'
+export type { TransferJournal, JournalStep } from './lib/journal'
+export type { PortfolioEntry } from './lib/balances'
+export type { KeystoreV3, KeystoreEntry } from './lib/keystore'
+export type { UnsignedTransferFile, UnsignedTransferStep } from './lib/offline-signing'
+export type { SafeTransactionBatch, SafeInfo, MultiSendTransaction } from './lib/safe'
+export type { QuoteCostBreakdown, StepGasEstimate } from './lib/costs'
+export type { SendParam, DirectOftQuoteParams } from './lib/oft'
+export type { TransferIntent, DecodedSend, VerifiedStep } from './lib/calldata'
+export type { ApprovalPolicy, SpenderAllowance, PreparedApprovals } from './lib/allowances'
+export type { StepSimulation, QuoteSimulation } from './lib/simulation'
+export type { FeeOptions, AutoBumpPolicy, TransactionFees } from './lib/fees'
+export type { BatchRow, BatchResult, BatchRowStatus, ValidatedBatchRow } from './lib/batch'
+export type { ErrorCode } from './lib/errors'
+export type { QuoteFailureReason, QuoteFailureContext } from './lib/errors'
@@ -0,0 +1,170 @@
+/**
+ * PYUSD allowance management
+ *
+ * Reads and revokes allowances granted to Stargate / OFT contracts, and
+ * prepares a quote's approve steps before execution: steps the existing
+ * allowance already covers are dropped and, under the exact policy, the
+ * approval is limited to the transfer amount.
+ */
+
+import { type Address, decodeFunctionData, encodeFunctionData, erc20Abi, type Hex, type PublicClient } from 'viem'
+
+import { listJournals } from './journal'
+import type { StargateQuote, StargateStep } from './stargate'
+import type { ChainConfig } from '../types/index'
+
+export const APPROVAL_POLICIES = ['exact', 'quote'] as const
+
+// exact: approve only the transfer amount; quote: keep the amount the quote asks for
+export type ApprovalPolicy = (typeof APPROVAL_POLICIES)[number]
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SpenderAllowance {
+  spender: Address
+  allowance: bigint
+  source: 'config' | 'history' // The chain's OFT adapter, or spender of a journaled transfer
+}
+
+export interface PreparedApprovals {
+  quote: StargateQuote
+  skipped: { spender: Address; allowance: bigint }[] // Approve steps dropped as already covered
+}
+
+// ============================================================================
+// Allowances
+// ============================================================================
+
+/**
+ * Decode an ERC-20 approve step
+ *
+ * @returns Undefined if the step isn't an approve call
+ */
+export function decodeApproveStep(step: StargateStep): { spender: Address; amount: bigint } | undefined {
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: step.transaction.data as Hex })
+    return functionName === 'approve' ? { spender: args[0], amount: args[1] } : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Spenders PYUSD may have been approved for on a chain
+ *
+ * The chain's OFT adapter (the contract Stargate and direct sends approve on
+ * PYUSD chains) plus every spender approved by a journaled transfer. PYUSD0
+ * tokens are their own OFT and burn without an approval, so the token itself
+ * is never a spender.
+ */
+export function getKnownSpenders(chainConfig: ChainConfig): Pick<SpenderAllowance, 'spender' | 'source'>[] {
+  const spenders = new Map<string, Pick<SpenderAllowance, 'spender' | 'source'>>()
+
+  const adapter = chainConfig.oftAddress
+  if (adapter && adapter.toLowerCase() !== chainConfig.tokenAddress.toLowerCase()) {
+    spenders.set(adapter.toLowerCase(), { spender: adapter, source: 'config' })
+  }
+
+  for (const journal of listJournals()) {
+    if (journal.srcChainKey !== chainConfig.chainKey) {
+      continue
+    }
+    for (const step of journal.quote.steps) {
+      const approve = decodeApproveStep(step)
+      if (approve && !spenders.has(approve.spender.toLowerCase())) {
+        spenders.set(approve.spender.toLowerCase(), { spender: approve.spender, source: 'history' })
+      }
+    }
+  }
+
+  return [...spenders.values()]
+}
+
+/**
+ * Read an owner's PYUSD allowance for every known spender on an EVM chain
+ */
+export async function getSpenderAllowances(
+  publicClient: PublicClient,
+  chainConfig: ChainConfig,
+  owner: Address
+): Promise<SpenderAllowance[]> {
+  return Promise.all(
+    getKnownSpenders(chainConfig).map(async ({ spender, source }) => ({
+      spender,
+      source,
+      allowance: await publicClient.readContract({
+        address: chainConfig.tokenAddress,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [owner, spender],
+      }),
+    }))
+  )
+}
+
+/**
+ * Build the transaction that sets a spender's PYUSD allowance to zero
+ */
+export function buildRevokeTransaction(chainConfig: ChainConfig, spender: Address): { to: Address; data: Hex } {
+  return {
+    to: chainConfig.tokenAddress,
+    data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, 0n] }),
+  }
+}
+
+// ============================================================================
+// Quote Preparation
+// ============================================================================
+
+/**
+ * Apply the approval policy to a quote and drop approvals that aren't needed
+ *
+ * Approve steps whose spender already has an allowance of at least the
+ * transfer amount are removed. With the exact policy, the remaining approve
+ * steps are re-encoded for exactly the transfer amount.
+ */
+export async function prepareApprovals(
+  publicClient: PublicClient,
+  quote: StargateQuote,
+  owner: Address,
+  params: { amountLD: bigint; policy: ApprovalPolicy }
+): Promise<PreparedApprovals> {
+  const steps: StargateStep[] = []
+  const skipped: PreparedApprovals['skipped'] = []
+
+  for (const step of quote.steps) {
+    const approve = decodeApproveStep(step)
+    if (!approve || !step.transaction.to) {
+      steps.push(step)
+      continue
+    }
+
+    const allowance = await publicClient.readContract({
+      address: step.transaction.to,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [owner, approve.spender],
+    })
+    if (allowance >= params.amountLD) {
+      skipped.push({ spender: approve.spender, allowance })
+      continue
+    }
+
+    if (params.policy === 'exact' && approve.amount !== params.amountLD) {
+      steps.push({
+        ...step,
+        transaction: {
+          ...step.transaction,
+          data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [approve.spender, params.amountLD] }),
+        },
+      })
+      continue
+    }
+
+    steps.push(step)
+  }
+
+  return { quote: { ...quote, steps }, skipped }
+}
@@ -0,0 +1,78 @@
+/**
+ * Chain-agnostic token balance lookups
+ *
+ * Dispatches to the EVM, Solana or Tron reader based on the chain type.
+ */
+
+import { BaseError, erc20Abi } from 'viem'
+
+import { createPublicClientForChain } from './client'
+import { getSolanaTokenBalance } from './solana-client'
+import { getTronTokenBalance } from './tron-client'
+import type { ChainConfig, ChainType } from '../types/index'
+
+/**
+ * Get the PYUSD/PYUSD0 balance of an address on any configured chain
+ *
+ * @param chainConfig - Chain to read from
+ * @param address - Owner address in the chain's native format
+ * @returns Balance in token base units
+ */
+export async function getTokenBalance(chainConfig: ChainConfig, address: string): Promise<bigint> {
+  switch (chainConfig.chainType) {
+    case 'solana':
+      return getSolanaTokenBalance(chainConfig.rpcUrl, address, chainConfig.tokenAddress)
+    case 'tron':
+      return getTronTokenBalance(chainConfig.rpcUrl, address, chainConfig.tokenAddress)
+    default: {
+      const client = createPublicClientForChain(chainConfig)
+      return client.readContract({
+        abi: erc20Abi,
+        address: chainConfig.tokenAddress,
+        functionName: 'balanceOf',
+        args: [address as `0x${string}`],
+      })
+    }
+  }
+}
+
+export interface PortfolioEntry {
+  chainConfig: ChainConfig
+  address?: string // Undefined when no address was provided for the chain type
+  balance?: bigint
+  error?: string
+}
+
+/**
+ * Read balances on every given chain concurrently
+ *
+ * Individual RPC failures are reported per entry instead of failing the whole
+ * lookup. Chains whose type has no address are returned without a balance.
+ *
+ * @param chains - Chains to read from
+ * @param addresses - Owner address for each chain type
+ */
+export async function getPortfolioBalances(
+  chains: ChainConfig[],
+  addresses: Partial<Record<ChainType, string>>
+): Promise<PortfolioEntry[]> {
+  return Promise.all(
+    chains.map(async (chainConfig): Promise<PortfolioEntry> => {
+      const address = addresses[chainConfig.chainType]
+      if (!address) {
+        return { chainConfig }
+      }
+
+      try {
+        const balance = await getTokenBalance(chainConfig, address)
+        return { chainConfig, address, balance }
+      } catch (error) {
+        // viem errors carry a multi-line message; the short message is enough for a table
+        const message = error instanceof BaseError
+          ? error.shortMessage
+          : error instanceof Error ? error.message : 'Unknown error'
+        return { chainConfig, address, error: message }
+      }
+    })
+  )
+}
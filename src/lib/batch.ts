@@ -0,0 +1,270 @@
+/**
+ * Batch transfers from a CSV file
+ *
+ * Reads and validates the rows of a batch file (source, destination, amount,
+ * recipient and an optional memo) and writes a results file with each row's
+ * status and transaction hashes. The results file has the same input columns,
+ * so it can be read back to re-run only the rows that didn't complete.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { isAddress } from 'viem'
+
+import { getChainConfig } from './chains'
+import { planRoute } from './routing'
+import { isSolanaAddress } from './solana-client'
+import { isTronAddress } from './tron-client'
+import type { ChainConfig } from '../types/index'
+import { parseAmount } from '../utils/format'
+
+export const BATCH_COLUMNS = ['source', 'destination', 'amount', 'recipient', 'memo'] as const
+
+export const BATCH_RESULT_COLUMNS = [...BATCH_COLUMNS, 'status', 'tx_hashes', 'journal_id', 'error'] as const
+
+// Columns that may be left out of a batch file
+const OPTIONAL_COLUMNS = new Set<string>(['memo'])
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BatchRow {
+  row: number // 1-based data row number in the original file
+  source: string
+  destination: string
+  amount: string // Human-readable amount as entered
+  recipient: string
+  memo: string
+}
+
+// pending: not run yet (or interrupted before sending)
+export type BatchRowStatus = 'pending' | 'completed' | 'failed'
+
+export interface BatchResult extends BatchRow {
+  status: BatchRowStatus
+  txHashes: string[]
+  journalId?: string
+  error?: string
+}
+
+export interface ValidatedBatchRow extends BatchRow {
+  srcConfig: ChainConfig
+  dstConfig: ChainConfig
+  amountLD: bigint
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields may contain commas, quotes and newlines)
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  // Blank lines are not records
+  return records.filter((values) => values.some((value) => value.trim() !== ''))
+}
+
+/**
+ * Format values as a CSV line, quoting where needed
+ */
+export function formatCsvLine(values: string[]): string {
+  return values.map((value) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(',')
+}
+
+/**
+ * Read a CSV file into records keyed by lower-cased header name
+ *
+ * @throws If a required column is missing
+ */
+function readCsvRecords(path: string, required: readonly string[]): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(readFileSync(path, 'utf-8').replace(/^\uFEFF/, ''))
+  if (!header) {
+    throw new Error(`${path} is empty`)
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase())
+  const missing = required.filter((name) => !OPTIONAL_COLUMNS.has(name) && !columns.includes(name))
+  if (missing.length > 0) {
+    throw new Error(`${path} is missing column(s): ${missing.join(', ')} (expected: ${BATCH_COLUMNS.join(', ')})`)
+  }
+
+  return rows.map((values) => Object.fromEntries(columns.map((name, i) => [name, values[i]?.trim() ?? ''])))
+}
+
+// ============================================================================
+// Batch Files
+// ============================================================================
+
+/**
+ * Read the rows of a batch file
+ *
+ * @throws If the file can't be read or is missing a column
+ */
+export function readBatchFile(path: string): BatchRow[] {
+  return readCsvRecords(path, BATCH_COLUMNS).map((record, i) => ({
+    row: i + 1,
+    source: record.source,
+    destination: record.destination,
+    amount: record.amount,
+    recipient: record.recipient,
+    memo: record.memo ?? '',
+  }))
+}
+
+/**
+ * Read a results file written by a previous batch run
+ */
+export function readBatchResults(path: string): BatchResult[] {
+  return readCsvRecords(path, BATCH_RESULT_COLUMNS).map((record, i) => ({
+    row: i + 1,
+    source: record.source,
+    destination: record.destination,
+    amount: record.amount,
+    recipient: record.recipient,
+    memo: record.memo ?? '',
+    status: record.status === 'completed' || record.status === 'failed' ? record.status : 'pending',
+    txHashes: record.tx_hashes ? record.tx_hashes.split(/\s+/) : [],
+    journalId: record.journal_id || undefined,
+    error: record.error || undefined,
+  }))
+}
+
+/**
+ * Write every row's result, in row order
+ */
+export function writeBatchResults(path: string, results: BatchResult[]): void {
+  const lines = [
+    formatCsvLine([...BATCH_RESULT_COLUMNS]),
+    ...[...results]
+      .sort((a, b) => a.row - b.row)
+      .map((result) =>
+        formatCsvLine([
+          result.source,
+          result.destination,
+          result.amount,
+          result.recipient,
+          result.memo,
+          result.status,
+          result.txHashes.join(' '),
+          result.journalId ?? '',
+          result.error ?? '',
+        ])
+      ),
+  ]
+  writeFileSync(path, `${lines.join('\n')}\n`)
+}
+
+/**
+ * Default results path for a batch file (payouts.csv → payouts.results.csv)
+ */
+export function getDefaultResultsPath(batchPath: string): string {
+  return `${batchPath.replace(/\.csv$/i, '')}.results.csv`
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check that an address is valid for a chain's address format
+ */
+export function isValidAddressForChain(chainConfig: ChainConfig, address: string): boolean {
+  if (chainConfig.chainType === 'solana') {
+    return isSolanaAddress(address)
+  }
+  if (chainConfig.chainType === 'tron') {
+    return isTronAddress(address)
+  }
+  return isAddress(address)
+}
+
+/**
+ * Validate a batch row without touching the network
+ *
+ * @throws With every problem found in the row
+ */
+export function validateBatchRow(row: BatchRow): ValidatedBatchRow {
+  const problems: string[] = []
+
+  let srcConfig: ChainConfig | undefined
+  let dstConfig: ChainConfig | undefined
+  try {
+    srcConfig = getChainConfig(row.source)
+  } catch {
+    problems.push(`unknown source chain "${row.source}"`)
+  }
+  try {
+    dstConfig = getChainConfig(row.destination)
+  } catch {
+    problems.push(`unknown destination chain "${row.destination}"`)
+  }
+
+  let amountLD = 0n
+  try {
+    amountLD = parseAmount(row.amount)
+  } catch {
+    // Reported below
+  }
+  if (amountLD <= 0n || !/^\d+(\.\d+)?$/.test(row.amount)) {
+    problems.push(`invalid amount "${row.amount}"`)
+  }
+
+  if (dstConfig && !isValidAddressForChain(dstConfig, row.recipient)) {
+    problems.push(`"${row.recipient}" is not a valid ${dstConfig.name} address`)
+  }
+
+  if (srcConfig && dstConfig) {
+    if (srcConfig.chainKey === dstConfig.chainKey) {
+      problems.push('source and destination are the same chain')
+    } else if (planRoute(srcConfig, dstConfig).isMultiHop) {
+      problems.push(`${srcConfig.name} → ${dstConfig.name} needs a multi-hop route, which batches don't support`)
+    }
+  }
+
+  if (problems.length > 0 || !srcConfig || !dstConfig) {
+    throw new Error(problems.join('; '))
+  }
+
+  return { ...row, srcConfig, dstConfig, amountLD }
+}
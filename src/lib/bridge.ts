@@ -0,0 +1,1075 @@
+/**
+ * Programmatic PYUSD bridge API
+ *
+ * PyusdBridge runs the same balance, quote, transfer, export, resume and
+ * tracking flows as the CLI commands, without printing or exiting. Methods return typed results and
+ * report progress through an onProgress callback. Problems found before
+ * anything is sent (unknown chain, missing signer, no quote, insufficient
+ * balance, calldata mismatch) throw a typed PyusdError (see ./errors);
+ * failures after a transaction was sent are returned on the result instead.
+ */
+
+import { formatUnits, isAddress } from 'viem'
+
+import { type ApprovalPolicy, prepareApprovals } from './allowances'
+import { getTokenBalance } from './balances'
+import { isValidAddressForChain } from './batch'
+import { verifyNativeFee, verifyQuoteCalldata, type VerifiedStep } from './calldata'
+import { type ChainRegistry, getChainConfig, isEvmChain } from './chains'
+import { createPublicClientForChain } from './client'
+import { rankQuotesByNetUsd } from './costs'
+import {
+  CalldataMismatchError,
+  InsufficientBalanceError,
+  InvalidInputError,
+  MissingKeyError,
+  QuoteUnavailableError,
+  TransactionPendingError,
+} from './errors'
+import type { AutoBumpPolicy, FeeOptions } from './fees'
+import {
+  createJournal,
+  finishJournal,
+  getFirstIncompleteStep,
+  type JournalStep,
+  journalStepRecorder,
+  replaceJournalQuote,
+  saveJournal,
+  type TransferJournal,
+  updateJournalStep,
+} from './journal'
+import { fetchLayerZeroMessage, isSourceTxHash, type LayerZeroMessage, waitForLayerZeroDelivery } from './layerzero'
+import { buildUnsignedEvmSteps, buildUnsignedSolanaSteps, type UnsignedTransferFile } from './offline-signing'
+import { DIRECT_OFT_ROUTE, fetchDirectOftQuote } from './oft'
+import {
+  executeRouteLeg,
+  fetchRouteLegQuote,
+  fetchRouteQuote,
+  planRoute,
+  type RouteLegQuote,
+} from './routing'
+import {
+  buildSafeTransactionBatch,
+  encodeMultiSend,
+  getSafeInfo,
+  type MultiSendTransaction,
+  type SafeInfo,
+  type SafeTransactionBatch,
+} from './safe'
+import { deriveSignerAddress } from './signers'
+import { type QuoteSimulation, simulateEvmSteps, simulateSolanaSteps } from './simulation'
+import { createSolanaConnection } from './solana-client'
+import {
+  calculateMinAmount,
+  type ExecuteTransferOptions,
+  fetchStargateQuote,
+  getQuoteNativeValue,
+  getQuoteRouteName,
+  type StargateQuote,
+  type StargateQuoteResult,
+  selectQuote,
+  type TransferStepStatus,
+} from './stargate'
+import { getTransactionStatus } from './tx-status'
+import type { ChainConfig, ChainType } from '../types/index'
+import { formatAmount, parseAmount, PYUSD_DECIMALS } from '../utils/format'
+
+export const DEFAULT_SLIPPAGE_PERCENT = 0.5
+
+// Destination balances can lag delivery by a few blocks
+const BALANCE_CHECK_ATTEMPTS = 5
+const BALANCE_CHECK_INTERVAL_MS = 5000
+
+// Quotes older than this are refreshed before resuming (calldata and fees go stale)
+const QUOTE_MAX_AGE_MS = 60_000
+
+// Non-EVM transactions expire if not included within about a minute
+const NON_EVM_TX_EXPIRY_MS = 120_000
+
+// Address format reminders for invalid addresses
+const ADDRESS_HINTS: Partial<Record<ChainType, string>> = {
+  solana: 'Solana addresses are base58 encoded and typically 32-44 characters.',
+  tron: 'Tron addresses are base58 encoded, start with "T" and are 34 characters.',
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Signing key per chain type, in the format loadSignerKey returns
+export type BridgeSigners = Partial<Record<ChainType, string>>
+
+export interface PyusdBridgeOptions {
+  signers?: BridgeSigners // Needed by transfer(), and for default addresses
+  registry?: ChainRegistry // Chains to use instead of the default registry
+}
+
+export interface BridgeBalance {
+  chainConfig: ChainConfig
+  address: string
+  balance: bigint // Token base units
+  decimals: number
+}
+
+export interface BridgeQuoteRequest {
+  source: string // Source chain key
+  destination: string // Destination chain key
+  amount: bigint // Amount to send, in token base units
+  sender?: string // Defaults to the signer for the source chain type
+  recipient?: string // Defaults to the signer for the destination chain type
+  intermediateAddress?: string // Multi-hop: EVM owner of the funds on the hub chain between legs
+  slippagePercent?: number // Default 0.5
+  route?: string // Stargate route name or 1-based rank (single-leg only)
+  direct?: boolean // Quote from the OFT contracts instead of the Stargate API (EVM, single-leg)
+}
+
+export interface BridgeQuote {
+  srcConfig: ChainConfig
+  dstConfig: ChainConfig
+  sender: string
+  recipient: string
+  amountLD: bigint
+  minAmountLD: bigint
+  dstAmount: bigint // Expected amount on the destination after every leg
+  slippagePercent: number
+  isMultiHop: boolean
+  legs: RouteLegQuote[] // The selected quote for each leg
+  alternatives: StargateQuote[] // Every route offered for a single-leg transfer, best ranked first
+  nativeUsdPrice?: number // Native price the alternatives were ranked with, if one was available
+}
+
+export type BridgeProgressEvent =
+  | { type: 'balance'; chainConfig: ChainConfig; address: string; balance: bigint }
+  | { type: 'safe'; safe: SafeInfo }
+  | { type: 'reconciled'; steps: JournalStep[] } // Resume: submitted steps checked on-chain
+  | { type: 'quoted'; legIndex: number; leg: RouteLegQuote; route: string; rank: number; routeCount: number }
+  | { type: 'approval-skipped'; legIndex: number; spender: string; allowance: bigint }
+  | { type: 'verified'; legIndex: number; steps: VerifiedStep[] }
+  | { type: 'prepared'; quote: BridgeQuote } // Every leg quoted and verified, before sending
+  | { type: 'journal'; journalId: string }
+  | { type: 'leg'; legIndex: number; leg: RouteLegQuote; startStep?: number } // startStep: resume skips confirmed steps
+  | { type: 'step'; legIndex: number; stepIndex: number; stepType: string; status: TransferStepStatus; txHash?: string }
+  | { type: 'message'; txHash: string; message?: LayerZeroMessage } // Undefined until indexed
+  | { type: 'arrived'; legIndex: number; chainConfig: ChainConfig; amount: bigint }
+
+export type BridgeProgressCallback = (event: BridgeProgressEvent) => void
+
+export interface BridgeTransferRequest extends Omit<BridgeQuoteRequest, 'sender' | 'intermediateAddress'> {
+  approval?: ApprovalPolicy // Default 'exact'
+  fees?: FeeOptions // EVM fee overrides
+  autoBump?: AutoBumpPolicy // EVM: re-broadcast stuck transactions with higher fees
+  dryRun?: boolean // Quote, verify and simulate without sending
+  wait?: boolean // Wait for LayerZero delivery and check the recipient's balance
+  confirm?: (quote: BridgeQuote) => Promise<boolean> // Asked once every leg is quoted and verified; false sends nothing
+  onProgress?: BridgeProgressCallback
+}
+
+export interface BridgeLegResult {
+  leg: RouteLegQuote // As executed, after approvals and re-quoting
+  txHashes: string[]
+  finalTxHash?: string
+}
+
+export interface DeliveryResult {
+  status: string // Terminal LayerZero message status
+  statusMessage?: string
+  dstTxHash?: string
+  received: bigint // Growth of the recipient's balance
+  expected: bigint
+  balance: bigint
+  elapsedMs: number
+}
+
+export interface BridgeTransferResult {
+  success: boolean
+  error?: string
+  aborted?: boolean // confirm returned false, so nothing was sent
+  quote: BridgeQuote // As verified before sending (later legs may be re-quoted)
+  journalId?: string // Single-leg transfers are journaled for resume
+  legs: BridgeLegResult[] // Legs that sent at least one transaction
+  txHashes: string[]
+  finalTxHash?: string // The last bridge transaction, for LayerZero tracking
+  delivery?: DeliveryResult // With wait
+  simulation?: QuoteSimulation // With dryRun: the first leg (not available for Tron)
+}
+
+export interface BridgeExportRequest extends Omit<BridgeQuoteRequest, 'intermediateAddress'> {
+  approval?: ApprovalPolicy // Default 'exact'
+  fees?: FeeOptions // EVM fee overrides for the unsigned transactions
+  onProgress?: BridgeProgressCallback
+}
+
+export interface BridgeUnsignedExport {
+  quote: BridgeQuote // As verified
+  file: UnsignedTransferFile // Write with writeUnsignedTransfer, sign offline, then broadcast
+}
+
+export interface BridgeSafeBatchRequest extends Omit<BridgeQuoteRequest, 'sender' | 'recipient' | 'intermediateAddress'> {
+  safe: string // Safe address on the source chain, which sends the transfer
+  recipient: string // Required: the Safe may not exist on the destination chain
+  approval?: ApprovalPolicy // Default 'exact'
+  onProgress?: BridgeProgressCallback
+}
+
+export interface BridgeSafeBatch {
+  quote: BridgeQuote // As verified
+  safe: SafeInfo
+  nativeFee: bigint // Native value the Safe sends with the bridge step
+  nativeBalance: bigint
+  batch: SafeTransactionBatch // Transaction Builder JSON
+  multiSend?: MultiSendTransaction // The steps as one delegatecall, when there are several
+}
+
+export interface BridgeResumeOptions {
+  forceResend?: boolean // Resend steps whose transactions are still pending (they may still be mined)
+  fees?: FeeOptions // EVM fee overrides
+  autoBump?: AutoBumpPolicy // EVM: re-broadcast stuck transactions with higher fees
+  onProgress?: BridgeProgressCallback
+}
+
+export interface BridgeResumeResult {
+  success: boolean
+  error?: string
+  journal: TransferJournal // As updated by the resume
+  requoted: boolean // The stored quote was stale and was replaced
+  txHashes: string[] // Every step's transaction, including earlier runs
+  finalTxHash?: string // The bridge transaction, for LayerZero tracking
+}
+
+export interface TrackMessageOptions {
+  watch?: boolean // Poll until the message reaches a terminal state
+  intervalMs?: number
+  timeoutMs?: number
+  onProgress?: BridgeProgressCallback
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Fetch every quote for a single-leg transfer
+ *
+ * Stargate quotes are ranked by net USD value when the source chain's native
+ * price is available (see sortQuotesByReceived). With direct set, the quote
+ * is built from the OFT contracts on the source chain instead of the
+ * Stargate API.
+ */
+async function fetchLegQuotes(
+  srcConfig: ChainConfig,
+  dstConfig: ChainConfig,
+  srcAddress: string,
+  dstAddress: string,
+  amountLD: bigint,
+  minAmountLD: bigint,
+  direct = false
+): Promise<StargateQuoteResult> {
+  if (direct) {
+    return fetchDirectOftQuote(createPublicClientForChain(srcConfig), {
+      srcConfig,
+      dstConfig,
+      srcAddress: srcAddress as `0x${string}`,
+      dstAddress,
+      amountLD,
+      minAmountLD,
+    })
+  }
+
+  return rankQuotesByNetUsd(srcConfig, await fetchStargateQuote({
+    srcToken: srcConfig.tokenAddress,
+    dstToken: dstConfig.tokenAddress,
+    srcAddress,
+    dstAddress,
+    srcChainKey: srcConfig.chainKey,
+    dstChainKey: dstConfig.chainKey,
+    srcAmount: amountLD.toString(),
+    dstAmountMin: minAmountLD.toString(),
+  }))
+}
+
+// ============================================================================
+// Bridge
+// ============================================================================
+
+export class PyusdBridge {
+  private readonly signers: BridgeSigners
+  private readonly registry?: ChainRegistry
+
+  constructor(options: PyusdBridgeOptions = {}) {
+    this.signers = options.signers ?? {}
+    this.registry = options.registry
+  }
+
+  /**
+   * Address of the configured signer for a chain type
+   */
+  getSignerAddress(chainType: ChainType): string | undefined {
+    const privateKey = this.signers[chainType]
+    return privateKey ? deriveSignerAddress(chainType, privateKey) : undefined
+  }
+
+  /**
+   * Read the PYUSD/PYUSD0 balance of an address
+   *
+   * @param chain - Chain key
+   * @param address - Owner address (defaults to the signer for the chain type)
+   */
+  async getBalance(chain: string, address?: string): Promise<BridgeBalance> {
+    const chainConfig = getChainConfig(chain, this.registry)
+    const owner = address ?? this.getSignerAddress(chainConfig.chainType)
+    if (!owner) {
+      throw new InvalidInputError(`An address or ${chainConfig.chainType} signer is required to check a balance on ${chainConfig.name}`)
+    }
+    if (!isValidAddressForChain(chainConfig, owner)) {
+      throw new InvalidInputError(`"${owner}" is not a valid ${chainConfig.name} address`, { address: owner }, ADDRESS_HINTS[chainConfig.chainType])
+    }
+
+    const balance = await getTokenBalance(chainConfig, owner)
+    return { chainConfig, address: owner, balance, decimals: PYUSD_DECIMALS }
+  }
+
+  /**
+   * Quote a transfer, routing through the hub chain when it crosses meshes
+   *
+   * @throws InvalidInputError If the request is invalid
+   * @throws QuoteUnavailableError If no quote is available
+   */
+  async quote(request: BridgeQuoteRequest): Promise<BridgeQuote> {
+    const srcConfig = getChainConfig(request.source, this.registry)
+    const dstConfig = getChainConfig(request.destination, this.registry)
+    if (request.amount <= 0n) {
+      throw new InvalidInputError('Amount must be greater than zero', { amount: request.amount })
+    }
+
+    const sender = request.sender ?? this.getSignerAddress(srcConfig.chainType)
+    if (!sender) {
+      throw new InvalidInputError(`A sender address or ${srcConfig.chainType} signer is required to quote from ${srcConfig.name}`)
+    }
+    const recipient = request.recipient
+      ?? (srcConfig.chainType === dstConfig.chainType ? sender : this.getSignerAddress(dstConfig.chainType))
+    if (!recipient) {
+      throw new InvalidInputError(`A recipient address is required for transfers to ${dstConfig.name}`)
+    }
+
+    const slippagePercent = request.slippagePercent ?? DEFAULT_SLIPPAGE_PERCENT
+    const amountLD = request.amount
+    const minAmountLD = BigInt(calculateMinAmount(amountLD.toString(), slippagePercent))
+    const plan = planRoute(srcConfig, dstConfig, this.registry)
+    const base = { srcConfig, dstConfig, sender, recipient, amountLD, minAmountLD, slippagePercent, isMultiHop: plan.isMultiHop }
+
+    if (plan.isMultiHop) {
+      if (request.route || request.direct) {
+        throw new InvalidInputError('A route or direct send can only be chosen for single-leg transfers')
+      }
+
+      // The hub chain is EVM, so funds are held by an EVM address between legs
+      const intermediateAddress = request.intermediateAddress
+        ?? this.getSignerAddress('evm')
+        ?? (isEvmChain(srcConfig) ? sender : isEvmChain(dstConfig) ? recipient : undefined)
+      if (!intermediateAddress) {
+        throw new InvalidInputError('An EVM address is required to hold funds on the hub chain between legs')
+      }
+
+      const routeResult = await fetchRouteQuote(plan, {
+        srcAddress: sender,
+        dstAddress: recipient,
+        intermediateAddress,
+        srcAmount: amountLD,
+        slippagePercent,
+      })
+      if (!routeResult.success) {
+        const failedLeg = plan.legs[routeResult.failedLeg ?? 0]
+        throw new QuoteUnavailableError(
+          `${failedLeg.srcConfig.name} → ${failedLeg.dstConfig.name}: ${routeResult.error}`,
+          routeResult.failure?.context
+            ?? { reason: 'no-routes', srcChainKey: failedLeg.srcConfig.chainKey, dstChainKey: failedLeg.dstConfig.chainKey }
+        )
+      }
+
+      return { ...base, legs: routeResult.legs, alternatives: [], dstAmount: BigInt(routeResult.dstAmount!) }
+    }
+
+    if (request.direct && !isEvmChain(srcConfig)) {
+      throw new InvalidInputError(`Direct OFT sends are only supported from EVM chains (${srcConfig.name} is ${srcConfig.chainType})`)
+    }
+
+    const result = await fetchLegQuotes(srcConfig, dstConfig, sender, recipient, amountLD, minAmountLD, request.direct)
+    if (!result.success || !result.bestQuote) {
+      throw result.failure
+        ?? new QuoteUnavailableError(result.error || 'No routes available', {
+          reason: 'no-routes',
+          srcChainKey: srcConfig.chainKey,
+          dstChainKey: dstConfig.chainKey,
+        })
+    }
+
+    let quote: StargateQuote
+    try {
+      quote = selectQuote(result.quotes, request.route)
+    } catch (error) {
+      throw new InvalidInputError(error instanceof Error ? error.message : String(error), { route: request.route })
+    }
+
+    return {
+      ...base,
+      legs: [{ srcConfig, dstConfig, quote, srcAddress: sender, dstAddress: recipient, amountLD, minAmountLD }],
+      alternatives: result.quotes,
+      nativeUsdPrice: result.nativeUsdPrice,
+      dstAmount: BigInt(quote.dstAmount),
+    }
+  }
+
+  /**
+   * Quote, verify and send a transfer with the configured signers
+   *
+   * With confirm set, nothing is sent until it approves the verified quote.
+   * Single-leg transfers are journaled so a partial failure can be resumed.
+   * Multi-hop transfers wait for each leg's delivery, then re-quote the next
+   * leg for the amount that actually arrived on the hub chain.
+   *
+   * @throws PyusdError If the transfer can't start (nothing has been sent)
+   */
+  async transfer(request: BridgeTransferRequest): Promise<BridgeTransferResult> {
+    const emit = request.onProgress ?? (() => {})
+    const srcConfig = getChainConfig(request.source, this.registry)
+    const dstConfig = getChainConfig(request.destination, this.registry)
+    const plan = planRoute(srcConfig, dstConfig, this.registry)
+
+    // Every leg needs a signer for its source chain
+    for (const leg of plan.legs) {
+      if (!this.signers[leg.srcConfig.chainType]) {
+        throw new MissingKeyError(leg.srcConfig.chainType, `A ${leg.srcConfig.chainType} signer is required for transfers from ${leg.srcConfig.name}`)
+      }
+    }
+    const sender = this.getSignerAddress(srcConfig.chainType)!
+
+    if (!plan.isMultiHop && isEvmChain(srcConfig)) {
+      await this.requireBalance(srcConfig, sender, request.amount, emit)
+    }
+
+    const prepared = await this.prepareQuote({
+      ...request,
+      sender,
+      intermediateAddress: plan.isMultiHop ? this.getSignerAddress('evm') : undefined,
+    }, request.approval, emit)
+
+    if (request.dryRun) {
+      // Later legs depend on the first being delivered, so only the first can be simulated
+      const simulation = await this.simulate(prepared.legs[0])
+      return {
+        success: simulation?.success ?? true,
+        error: simulation && !simulation.success ? 'Not every step would succeed' : undefined,
+        quote: prepared,
+        legs: [],
+        txHashes: [],
+        simulation,
+      }
+    }
+
+    if (request.confirm && !(await request.confirm(prepared))) {
+      return { success: false, aborted: true, error: 'Aborted', quote: prepared, legs: [], txHashes: [] }
+    }
+
+    // Snapshot the recipient's balance so wait can check what arrived
+    const startedAt = Date.now()
+    const dstBalanceBefore = request.wait ? await getTokenBalance(dstConfig, prepared.recipient) : 0n
+
+    const result = prepared.isMultiHop
+      ? await this.executeMultiHop(prepared, request, emit)
+      : await this.executeSingleLeg(prepared, request, emit)
+
+    if (!result.success || !request.wait || !result.finalTxHash) {
+      return result
+    }
+
+    try {
+      const delivery = await this.waitForDelivery(result.finalTxHash, dstConfig, prepared.recipient, dstBalanceBefore, BigInt(result.legs[result.legs.length - 1].leg.quote.dstAmount), startedAt, emit)
+      result.delivery = delivery
+      if (delivery.status !== 'DELIVERED') {
+        return { ...result, success: false, error: `Delivery failed: ${delivery.statusMessage || delivery.status}` }
+      }
+      if (delivery.received < delivery.expected) {
+        return {
+          ...result,
+          success: false,
+          error: `Recipient balance on ${dstConfig.name} grew by ${formatAmount(delivery.received)}, expected at least ${formatAmount(delivery.expected)}`,
+        }
+      }
+    } catch (error) {
+      return { ...result, success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+
+    return result
+  }
+
+  /**
+   * Quote and verify a single-leg transfer, and build its unsigned transactions
+   *
+   * No signer is needed: the sender defaults to the signer's address. Sign the
+   * transactions offline, then send them with broadcast.
+   *
+   * @throws PyusdError If the transfer can't be exported
+   */
+  async exportUnsigned(request: BridgeExportRequest): Promise<BridgeUnsignedExport> {
+    const emit = request.onProgress ?? (() => {})
+    const srcConfig = getChainConfig(request.source, this.registry)
+    const dstConfig = getChainConfig(request.destination, this.registry)
+    if (srcConfig.chainType === 'tron') {
+      throw new InvalidInputError(`Unsigned export is not supported for transfers from ${srcConfig.name}`)
+    }
+    if (planRoute(srcConfig, dstConfig, this.registry).isMultiHop) {
+      throw new InvalidInputError(
+        `Unsigned export does not support multi-hop routes (${srcConfig.name} → ${dstConfig.name})`,
+        {},
+        'Export each leg separately via the hub chain once the previous leg is delivered.'
+      )
+    }
+
+    const sender = request.sender ?? this.getSignerAddress(srcConfig.chainType)
+    if (!sender) {
+      throw new InvalidInputError(`A sender address or ${srcConfig.chainType} signer is required to export a transfer from ${srcConfig.name}`)
+    }
+    if (!isValidAddressForChain(srcConfig, sender)) {
+      throw new InvalidInputError(`"${sender}" is not a valid ${srcConfig.name} address`, { address: sender }, ADDRESS_HINTS[srcConfig.chainType])
+    }
+
+    await this.requireBalance(srcConfig, sender, request.amount, emit)
+    const quote = await this.prepareQuote({ ...request, sender }, request.approval, emit)
+    const legQuote = quote.legs[0].quote
+    const steps = srcConfig.chainType === 'solana'
+      ? buildUnsignedSolanaSteps(legQuote)
+      : await buildUnsignedEvmSteps(createPublicClientForChain(srcConfig), sender as `0x${string}`, legQuote, request.fees)
+
+    return {
+      quote,
+      file: {
+        version: 1,
+        createdAt: new Date().toISOString(),
+        srcChainKey: srcConfig.chainKey,
+        dstChainKey: dstConfig.chainKey,
+        chainType: srcConfig.chainType,
+        amount: formatAmount(request.amount),
+        srcAddress: sender,
+        dstAddress: quote.recipient,
+        dstAmount: legQuote.dstAmount,
+        steps,
+      },
+    }
+  }
+
+  /**
+   * Quote and verify a transfer sent by a Safe, as a Transaction Builder batch
+   *
+   * The Safe's token balance is checked before quoting, and its native balance
+   * against the bridge step's fee, which it pays from its own balance.
+   *
+   * @throws PyusdError If the batch can't be built
+   */
+  async buildSafeBatch(request: BridgeSafeBatchRequest): Promise<BridgeSafeBatch> {
+    const emit = request.onProgress ?? (() => {})
+    const srcConfig = getChainConfig(request.source, this.registry)
+    const dstConfig = getChainConfig(request.destination, this.registry)
+    if (!isEvmChain(srcConfig) || planRoute(srcConfig, dstConfig, this.registry).isMultiHop) {
+      throw new InvalidInputError(`Safe batches require a direct transfer from an EVM chain (${srcConfig.name} → ${dstConfig.name})`)
+    }
+    if (!isAddress(request.safe)) {
+      throw new InvalidInputError(`"${request.safe}" is not a valid Safe address`, { safe: request.safe })
+    }
+
+    const publicClient = createPublicClientForChain(srcConfig)
+    const safe = await getSafeInfo(publicClient, request.safe)
+    emit({ type: 'safe', safe })
+
+    await this.requireBalance(srcConfig, request.safe, request.amount, emit)
+    const quote = await this.prepareQuote({ ...request, sender: request.safe }, request.approval, emit)
+    const legQuote = quote.legs[0].quote
+
+    const nativeFee = getQuoteNativeValue(legQuote)
+    const nativeBalance = await publicClient.getBalance({ address: request.safe })
+    if (nativeBalance < nativeFee) {
+      const { symbol, decimals } = srcConfig.nativeCurrency
+      throw new InsufficientBalanceError(
+        `Insufficient ${symbol}: Safe has ${formatUnits(nativeBalance, decimals)} ${symbol}, the bridge fee needs ${formatUnits(nativeFee, decimals)} ${symbol}`,
+        { chainKey: srcConfig.chainKey, address: request.safe, balance: nativeBalance, required: nativeFee }
+      )
+    }
+
+    const batch = buildSafeTransactionBatch({
+      chainId: srcConfig.chainId,
+      safeAddress: request.safe,
+      quote: legQuote,
+      name: `PYUSD ${srcConfig.name} → ${dstConfig.name}`,
+      description: `Stargate transfer of ${formatAmount(request.amount)} ${srcConfig.symbol} to ${request.recipient} on ${dstConfig.name}`,
+    })
+    return {
+      quote,
+      safe,
+      nativeFee,
+      nativeBalance,
+      batch,
+      multiSend: legQuote.steps.length > 1 ? encodeMultiSend(legQuote) : undefined,
+    }
+  }
+
+  /**
+   * Resume a journaled transfer from its first incomplete step
+   *
+   * Submitted steps are checked on-chain first. A stale quote (and any Solana
+   * quote, whose blockhash expires) is replaced, then the remaining steps are
+   * verified and sent with the signer that started the transfer.
+   *
+   * @throws PyusdError If the transfer can't be resumed (nothing was sent)
+   */
+  async resume(journal: TransferJournal, options: BridgeResumeOptions = {}): Promise<BridgeResumeResult> {
+    const emit = options.onProgress ?? (() => {})
+    const srcConfig = getChainConfig(journal.srcChainKey, this.registry)
+    const dstConfig = getChainConfig(journal.dstChainKey, this.registry)
+    let requoted = false
+    const finish = (error?: string): BridgeResumeResult => {
+      const txHashes = journal.steps.flatMap((step) => (step.txHash ? [step.txHash] : []))
+      return {
+        success: !error,
+        error,
+        journal,
+        requoted,
+        txHashes,
+        finalTxHash: journal.steps.find((step) => step.type === 'bridge')?.txHash || txHashes[txHashes.length - 1],
+      }
+    }
+
+    if (journal.status === 'completed') {
+      return finish()
+    }
+
+    const privateKey = this.signers[srcConfig.chainType]
+    if (!privateKey) {
+      throw new MissingKeyError(srcConfig.chainType, `A ${srcConfig.chainType} signer is required to resume transfers from ${srcConfig.name}`)
+    }
+    // The remaining steps must be signed by the account that started the transfer
+    const signerAddress = deriveSignerAddress(srcConfig.chainType, privateKey)
+    if (signerAddress.toLowerCase() !== journal.srcAddress.toLowerCase()) {
+      throw new InvalidInputError(
+        `Signing key belongs to ${signerAddress}, but this transfer was started by ${journal.srcAddress}`,
+        { signer: signerAddress, sender: journal.srcAddress }
+      )
+    }
+
+    await this.reconcileJournal(journal, srcConfig, options.forceResend)
+    emit({ type: 'reconciled', steps: journal.steps })
+
+    const amountLD = parseAmount(journal.amount)
+    const slippagePercent = Number.parseFloat(journal.slippage)
+    if (getFirstIncompleteStep(journal) < journal.steps.length
+      && (srcConfig.chainType === 'solana' || Date.now() - Date.parse(journal.quotedAt) > QUOTE_MAX_AGE_MS)) {
+      const refreshed = await this.quote({
+        source: srcConfig.chainKey,
+        destination: dstConfig.chainKey,
+        amount: amountLD,
+        sender: journal.srcAddress,
+        recipient: journal.dstAddress,
+        slippagePercent,
+        direct: journal.quote.route === DIRECT_OFT_ROUTE,
+      })
+
+      // Stay on the journaled route if it is still offered
+      const routeName = getQuoteRouteName(journal.quote)
+      const sameRoute = refreshed.alternatives.find((quote) => getQuoteRouteName(quote) === routeName)
+      const leg = await this.prepareLeg({ ...refreshed.legs[0], quote: sameRoute ?? refreshed.legs[0].quote }, 0, refreshed.alternatives, 'exact', emit)
+      replaceJournalQuote(journal, leg.quote)
+      requoted = true
+      emit({ type: 'prepared', quote: { ...refreshed, legs: [leg], dstAmount: BigInt(leg.quote.dstAmount) } })
+    }
+
+    const startStep = getFirstIncompleteStep(journal)
+    if (startStep === journal.steps.length) {
+      finishJournal(journal)
+      return finish()
+    }
+
+    const leg: RouteLegQuote = {
+      srcConfig,
+      dstConfig,
+      quote: journal.quote,
+      srcAddress: journal.srcAddress,
+      dstAddress: journal.dstAddress,
+      amountLD,
+      minAmountLD: BigInt(calculateMinAmount(amountLD.toString(), slippagePercent)),
+    }
+    // A refreshed quote was verified when it was prepared
+    if (!requoted) {
+      await this.verifyLeg(leg, 0, emit)
+    }
+
+    journal.status = 'in_progress'
+    saveJournal(journal)
+    emit({ type: 'leg', legIndex: 0, leg, startStep })
+
+    const record = journalStepRecorder(journal)
+    const result = await executeRouteLeg(
+      leg,
+      privateKey,
+      (stepIndex, stepType, status, txHash) => {
+        record(stepIndex, stepType, status, txHash)
+        emit({ type: 'step', legIndex: 0, stepIndex, stepType, status, txHash })
+      },
+      { ...this.getExecutionOptions(options), startStep }
+    )
+    finishJournal(journal, result.error)
+    return finish(result.error)
+  }
+
+  /**
+   * Look up the LayerZero message sent by a source transaction
+   *
+   * @returns The message, or undefined if it isn't indexed (without watch)
+   * @throws InvalidInputError If the hash isn't a transaction hash
+   * @throws DeliveryTimeoutError If watch times out before a terminal state
+   */
+  async trackMessage(txHash: string, options: TrackMessageOptions & { watch: true }): Promise<LayerZeroMessage>
+  async trackMessage(txHash: string, options?: TrackMessageOptions): Promise<LayerZeroMessage | undefined>
+  async trackMessage(txHash: string, options: TrackMessageOptions = {}): Promise<LayerZeroMessage | undefined> {
+    if (!isSourceTxHash(txHash)) {
+      throw new InvalidInputError(`Invalid transaction hash: ${txHash}`, { txHash })
+    }
+
+    if (!options.watch) {
+      return fetchLayerZeroMessage(txHash)
+    }
+
+    return waitForLayerZeroDelivery(txHash, {
+      intervalMs: options.intervalMs,
+      timeoutMs: options.timeoutMs,
+      onStatus: (message) => options.onProgress?.({ type: 'message', txHash, message }),
+    })
+  }
+
+  /**
+   * Simulate a leg's steps on-chain (EVM and Solana source chains)
+   */
+  async simulate(leg: RouteLegQuote): Promise<QuoteSimulation | undefined> {
+    if (leg.srcConfig.chainType === 'solana') {
+      return simulateSolanaSteps(createSolanaConnection(leg.srcConfig.rpcUrl), leg.quote)
+    }
+    if (isEvmChain(leg.srcConfig)) {
+      return simulateEvmSteps(createPublicClientForChain(leg.srcConfig), leg.quote, leg.srcAddress as `0x${string}`)
+    }
+    return undefined
+  }
+
+  /**
+   * Check that an address holds enough tokens for a transfer
+   *
+   * @throws InsufficientBalanceError If the balance is short
+   */
+  private async requireBalance(chainConfig: ChainConfig, address: string, amount: bigint, emit: BridgeProgressCallback): Promise<void> {
+    const balance = await getTokenBalance(chainConfig, address)
+    emit({ type: 'balance', chainConfig, address, balance })
+    if (balance < amount) {
+      throw new InsufficientBalanceError(
+        `Insufficient balance: have ${formatAmount(balance)} ${chainConfig.symbol}, need ${formatAmount(amount)} ${chainConfig.symbol}`,
+        { chainKey: chainConfig.chainKey, address, balance, required: amount }
+      )
+    }
+  }
+
+  /**
+   * Quote a transfer and prepare every leg for sending
+   *
+   * Every path that sends or exports a transfer goes through here (or
+   * prepareLeg, for re-quoted legs), so nothing is signed unverified.
+   */
+  private async prepareQuote(
+    request: BridgeQuoteRequest,
+    approval: ApprovalPolicy | undefined,
+    emit: BridgeProgressCallback
+  ): Promise<BridgeQuote> {
+    const quote = await this.quote(request)
+    const legs = [...quote.legs]
+    for (let i = 0; i < legs.length; i++) {
+      legs[i] = await this.prepareLeg(legs[i], i, quote.alternatives, approval, emit)
+    }
+    const prepared = { ...quote, legs }
+    emit({ type: 'prepared', quote: prepared })
+    return prepared
+  }
+
+  /**
+   * Drop covered approvals, apply the approval policy and verify the calldata
+   *
+   * @param alternatives - Every route offered for the leg, to report its rank
+   * @throws CalldataMismatchError If the calldata doesn't match the leg
+   */
+  private async prepareLeg(
+    leg: RouteLegQuote,
+    legIndex: number,
+    alternatives: StargateQuote[],
+    approval: ApprovalPolicy = 'exact',
+    emit: BridgeProgressCallback
+  ): Promise<RouteLegQuote> {
+    emit({
+      type: 'quoted',
+      legIndex,
+      leg,
+      route: getQuoteRouteName(leg.quote),
+      rank: Math.max(alternatives.indexOf(leg.quote), 0) + 1,
+      routeCount: Math.max(alternatives.length, 1),
+    })
+
+    let prepared = leg
+    if (isEvmChain(leg.srcConfig)) {
+      const approvals = await prepareApprovals(createPublicClientForChain(leg.srcConfig), leg.quote, leg.srcAddress as `0x${string}`, {
+        amountLD: leg.amountLD,
+        policy: approval,
+      })
+      for (const { spender, allowance } of approvals.skipped) {
+        emit({ type: 'approval-skipped', legIndex, spender, allowance })
+      }
+      prepared = { ...leg, quote: approvals.quote }
+    }
+
+    await this.verifyLeg(prepared, legIndex, emit)
+    return prepared
+  }
+
+  /**
+   * Check a leg's calldata against the transfer it should make
+   *
+   * On EVM chains the native fee is also checked against the send contract's quoteSend.
+   *
+   * @throws CalldataMismatchError If the calldata doesn't match the leg
+   */
+  private async verifyLeg(leg: RouteLegQuote, legIndex: number, emit: BridgeProgressCallback): Promise<void> {
+    let steps: VerifiedStep[]
+    try {
+      steps = verifyQuoteCalldata(leg.quote, leg)
+    } catch (error) {
+      throw new CalldataMismatchError(error instanceof Error ? error.message : String(error), {
+        srcChainKey: leg.srcConfig.chainKey,
+        dstChainKey: leg.dstConfig.chainKey,
+      })
+    }
+    if (isEvmChain(leg.srcConfig)) {
+      await verifyNativeFee(createPublicClientForChain(leg.srcConfig), leg.quote, leg)
+    }
+    emit({ type: 'verified', legIndex, steps })
+  }
+
+  private getExecutionOptions(options: { fees?: FeeOptions; autoBump?: AutoBumpPolicy }): ExecuteTransferOptions {
+    return { fees: options.fees, autoBump: options.autoBump }
+  }
+
+  /**
+   * Update a journal's submitted steps from their on-chain status
+   *
+   * Failed, dropped and expired transactions are cleared so their steps are
+   * sent again, as are pending ones with forceResend.
+   *
+   * @throws TransactionPendingError If a step's transaction is still pending
+   */
+  private async reconcileJournal(journal: TransferJournal, srcConfig: ChainConfig, forceResend = false): Promise<void> {
+    const lastActivity = Date.parse(journal.updatedAt)
+    for (let i = 0; i < journal.steps.length; i++) {
+      const step = journal.steps[i]
+      if (step.status === 'confirmed' || !step.txHash) {
+        continue
+      }
+
+      const onChain = await getTransactionStatus(srcConfig, step.txHash)
+      if (onChain === 'confirmed') {
+        updateJournalStep(journal, i, { status: 'confirmed', error: undefined })
+      } else if (onChain === 'failed') {
+        updateJournalStep(journal, i, { status: 'failed', txHash: undefined, error: `Transaction ${step.txHash} failed on-chain` })
+      } else if (onChain === 'dropped') {
+        updateJournalStep(journal, i, { status: 'failed', txHash: undefined, error: `Transaction ${step.txHash} was dropped` })
+      } else if (forceResend) {
+        updateJournalStep(journal, i, { status: 'failed', txHash: undefined, error: `Transaction ${step.txHash} was pending when resent` })
+      } else if (srcConfig.chainType !== 'evm' && Date.now() - lastActivity > NON_EVM_TX_EXPIRY_MS) {
+        // Expired Solana/Tron transactions can never land, so it's safe to resend
+        updateJournalStep(journal, i, { status: 'failed', txHash: undefined, error: `Transaction ${step.txHash} expired` })
+      } else {
+        const speedup = srcConfig.chainType === 'evm'
+          ? `\nTo replace it with higher fees: pyusd-lz tx speedup ${srcConfig.chainKey} ${step.txHash}`
+          : ''
+        throw new TransactionPendingError(
+          `Step ${i + 1} (${step.type}) transaction ${step.txHash} is still pending`,
+          { chainKey: srcConfig.chainKey, stepIndex: i, txHash: step.txHash },
+          `Wait for it to confirm or drop, then run resume again.${speedup}\nIf you know it will never be mined: pyusd-lz transfer resume ${journal.id} --force-resend`
+        )
+      }
+    }
+  }
+
+  /**
+   * Send a single-leg transfer, journaling every step
+   */
+  private async executeSingleLeg(
+    quote: BridgeQuote,
+    request: BridgeTransferRequest,
+    emit: BridgeProgressCallback
+  ): Promise<BridgeTransferResult> {
+    const leg = quote.legs[0]
+    const journal = createJournal({
+      srcChainKey: leg.srcConfig.chainKey,
+      dstChainKey: leg.dstConfig.chainKey,
+      amount: formatAmount(leg.amountLD),
+      slippage: quote.slippagePercent.toString(),
+      srcAddress: leg.srcAddress,
+      dstAddress: leg.dstAddress,
+      quote: leg.quote,
+    })
+    emit({ type: 'leg', legIndex: 0, leg })
+    emit({ type: 'journal', journalId: journal.id })
+
+    const record = journalStepRecorder(journal)
+    const result = await executeRouteLeg(
+      leg,
+      this.signers[leg.srcConfig.chainType]!,
+      (stepIndex, stepType, status, txHash) => {
+        record(stepIndex, stepType, status, txHash)
+        emit({ type: 'step', legIndex: 0, stepIndex, stepType, status, txHash })
+      },
+      this.getExecutionOptions(request)
+    )
+    finishJournal(journal, result.error)
+
+    return {
+      success: result.success,
+      error: result.error,
+      quote,
+      journalId: journal.id,
+      legs: result.txHashes.length > 0 ? [{ leg, txHashes: result.txHashes, finalTxHash: result.finalTxHash }] : [],
+      txHashes: result.txHashes,
+      finalTxHash: result.finalTxHash,
+    }
+  }
+
+  /**
+   * Send a multi-hop transfer leg by leg
+   *
+   * Each leg after the first waits for LayerZero delivery of the previous leg,
+   * checks what arrived on the hub chain, then re-quotes for that amount.
+   */
+  private async executeMultiHop(
+    quote: BridgeQuote,
+    request: BridgeTransferRequest,
+    emit: BridgeProgressCallback
+  ): Promise<BridgeTransferResult> {
+    const quotedLegs = quote.legs
+    const intermediateAddress = this.getSignerAddress('evm')!
+    const completed: (BridgeLegResult & { hubBalanceBefore: bigint })[] = []
+    const finish = (error?: string): BridgeTransferResult => ({
+      success: !error,
+      error,
+      quote,
+      legs: completed.map(({ leg, txHashes, finalTxHash }) => ({ leg, txHashes, finalTxHash })),
+      txHashes: completed.flatMap((done) => done.txHashes),
+      finalTxHash: error ? undefined : completed[completed.length - 1]?.finalTxHash,
+    })
+
+    let leg = quotedLegs[0]
+    for (let i = 0; i < quotedLegs.length; i++) {
+      // Re-quote later legs for the amount that actually arrived on the hub
+      if (i > 0) {
+        const previous = completed[i - 1]
+        const expected = quotedLegs[i]
+
+        try {
+          const message = await waitForLayerZeroDelivery(previous.finalTxHash!, {
+            onStatus: (update) => emit({ type: 'message', txHash: previous.finalTxHash!, message: update }),
+          })
+          if (message.status.name !== 'DELIVERED') {
+            return finish(`Leg ${i} was not delivered: ${message.status.message || message.status.name}`)
+          }
+
+          // Only forward what this transfer delivered, never pre-existing funds
+          const balanceAfter = await getTokenBalance(expected.srcConfig, intermediateAddress)
+          const delivered = balanceAfter - previous.hubBalanceBefore
+          const quoted = BigInt(previous.leg.quote.dstAmount)
+          if (delivered <= 0n) {
+            return finish(`No ${expected.srcConfig.symbol} arrived on ${expected.srcConfig.name} (balance: ${formatAmount(balanceAfter)})`)
+          }
+          emit({ type: 'arrived', legIndex: i - 1, chainConfig: expected.srcConfig, amount: delivered })
+
+          const requoted = await fetchRouteLegQuote(
+            expected,
+            intermediateAddress,
+            expected.dstAddress,
+            delivered < quoted ? delivered : quoted,
+            quote.slippagePercent
+          )
+          if (!requoted.quote) {
+            return finish(`Failed to re-quote ${expected.srcConfig.name} → ${expected.dstConfig.name}: ${requoted.error}`)
+          }
+          leg = await this.prepareLeg(requoted.quote, i, [], request.approval, emit)
+        } catch (error) {
+          return finish(error instanceof Error ? error.message : String(error))
+        }
+      }
+
+      emit({ type: 'leg', legIndex: i, leg })
+
+      // Snapshot the hub balance so the next leg can measure what arrived
+      const isLast = i === quotedLegs.length - 1
+      const hubBalanceBefore = isLast ? 0n : await getTokenBalance(leg.dstConfig, intermediateAddress)
+
+      const legIndex = i
+      const result = await executeRouteLeg(
+        leg,
+        this.signers[leg.srcConfig.chainType]!,
+        (stepIndex, stepType, status, txHash) => emit({ type: 'step', legIndex, stepIndex, stepType, status, txHash }),
+        this.getExecutionOptions(request)
+      )
+
+      if (result.txHashes.length > 0 || result.success) {
+        completed.push({ leg, txHashes: result.txHashes, finalTxHash: result.finalTxHash, hubBalanceBefore })
+      }
+      if (!result.success || !result.finalTxHash) {
+        return finish(`Leg ${i + 1}/${quotedLegs.length} failed: ${result.error}`)
+      }
+    }
+
+    return finish()
+  }
+
+  /**
+   * Wait for LayerZero delivery and measure what the recipient received
+   */
+  private async waitForDelivery(
+    txHash: string,
+    dstConfig: ChainConfig,
+    recipient: string,
+    balanceBefore: bigint,
+    expected: bigint,
+    startedAt: number,
+    emit: BridgeProgressCallback
+  ): Promise<DeliveryResult> {
+    const message = await waitForLayerZeroDelivery(txHash, {
+      onStatus: (update) => emit({ type: 'message', txHash, message: update }),
+    })
+
+    let balance = balanceBefore
+    if (message.status.name === 'DELIVERED') {
+      for (let attempt = 0; attempt < BALANCE_CHECK_ATTEMPTS; attempt++) {
+        balance = await getTokenBalance(dstConfig, recipient)
+        if (balance - balanceBefore >= expected) {
+          break
+        }
+        await sleep(BALANCE_CHECK_INTERVAL_MS)
+      }
+    }
+
+    return {
+      status: message.status.name,
+      statusMessage: message.status.message,
+      dstTxHash: message.destination?.tx?.txHash,
+      received: balance - balanceBefore,
+      expected,
+      balance,
+      elapsedMs: Date.now() - startedAt,
+    }
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * Independent verification of quote calldata
+ *
+ * Decodes every step of a quote before anything is signed and checks it
+ * against what the user asked for: the token being approved and its spender,
+ * the contract being called and the OFT send parameters (destination
+ * endpoint, recipient, amounts and native fee). Contracts (and Solana
+ * programs) must also be on the source chain's allowlist, so a compromised or
+ * buggy quote API can't redirect funds.
+ */
+
+import { createHash } from 'node:crypto'
+import { VersionedMessage, VersionedTransaction } from '@solana/web3.js'
+import bs58 from 'bs58'
+import { decodeFunctionData, erc20Abi, type Hex, parseAbi, type PublicClient, toHex } from 'viem'
+
+import { CalldataMismatchError } from './errors'
+import { getEndpointId, recipientToBytes32 } from './oft'
+import type { StargateQuote } from './stargate'
+import type { ChainConfig } from '../types/index'
+
+// OFT `send` and Stargate pool `sendToken` share the same parameters
+const SEND_ABI = parseAbi([
+  'struct SendParam { uint32 dstEid; bytes32 to; uint256 amountLD; uint256 minAmountLD; bytes extraOptions; bytes composeMsg; bytes oftCmd; }',
+  'struct MessagingFee { uint256 nativeFee; uint256 lzTokenFee; }',
+  'function send(SendParam _sendParam, MessagingFee _fee, address _refundAddress) payable',
+  'function sendToken(SendParam _sendParam, MessagingFee _fee, address _refundAddress) payable',
+])
+
+const QUOTE_SEND_ABI = parseAbi([
+  'struct SendParam { uint32 dstEid; bytes32 to; uint256 amountLD; uint256 minAmountLD; bytes extraOptions; bytes composeMsg; bytes oftCmd; }',
+  'struct MessagingFee { uint256 nativeFee; uint256 lzTokenFee; }',
+  'function quoteSend(SendParam _sendParam, bool _payInLzToken) view returns (MessagingFee)',
+])
+
+// How far a quote's native fee may exceed the contract's own quoteSend (fees move between quote and send)
+const MAX_NATIVE_FEE_MARGIN_PERCENT = 50n
+
+// Anchor discriminator of the Solana OFT program's `send` instruction
+const SOLANA_SEND_DISCRIMINATOR = createHash('sha256').update('global:send').digest().subarray(0, 8)
+
+// Programs a Solana bridge transaction may call besides the OFT program (fee settings only)
+const SOLANA_COMPUTE_BUDGET_PROGRAM = 'ComputeBudget111111111111111111111111111111'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TransferIntent {
+  srcConfig: ChainConfig
+  dstConfig: ChainConfig
+  srcAddress: string // Sender in the source chain's native format
+  dstAddress: string // Recipient in the destination chain's native format
+  amountLD: bigint // Amount to send, in token base units
+  minAmountLD: bigint // Lowest acceptable amount on the destination
+}
+
+export interface DecodedSend {
+  contract: string
+  dstEid: number
+  to: Hex // bytes32 recipient
+  amountLD: bigint
+  minAmountLD: bigint
+  composeMsg: Hex
+  refundAddress?: string // Not part of the Solana instruction
+  nativeFee?: bigint // EVM: the fee argument the call must carry as value
+  lzTokenFee?: bigint // EVM
+}
+
+export interface VerifiedStep {
+  type: string
+  summary: string
+}
+
+// ============================================================================
+// Allowlist
+// ============================================================================
+
+/**
+ * Normalize an address for comparison on a chain
+ *
+ * Tron addresses (base58 or 41-prefixed hex) become 0x-hex like the EVM
+ * addresses embedded in their calldata.
+ */
+function normalizeAddress(chainConfig: ChainConfig, address: string): string {
+  if (chainConfig.chainType === 'tron') {
+    if (/^41[0-9a-fA-F]{40}$/.test(address)) {
+      return `0x${address.slice(2)}`.toLowerCase()
+    }
+    if (!address.startsWith('0x')) {
+      return toHex(bs58.decode(address).slice(1, 21))
+    }
+  }
+  return chainConfig.chainType === 'solana' ? address : address.toLowerCase()
+}
+
+/**
+ * Contracts a quote may call to bridge from a chain
+ *
+ * The configured OFT adapter (oftAddress in config/chains.json or
+ * OFT_<CHAIN>; the OFT program on Solana) and, on PYUSD0 chains, the token
+ * itself.
+ */
+export function getTrustedContracts(chainConfig: ChainConfig): string[] {
+  const trusted: string[] = []
+  if (chainConfig.oftAddress) {
+    trusted.push(chainConfig.oftAddress)
+  }
+  if (chainConfig.symbol === 'PYUSD0') {
+    trusted.push(chainConfig.tokenAddress)
+  }
+  return trusted.map((address) => normalizeAddress(chainConfig, address))
+}
+
+function requireTrusted(chainConfig: ChainConfig, address: string, role: string): void {
+  if (!getTrustedContracts(chainConfig).includes(normalizeAddress(chainConfig, address))) {
+    throw new Error(
+      `${role} ${address} is not a known OFT contract on ${chainConfig.name}. ` +
+        `If it is legitimate, set "oftAddress" for ${chainConfig.chainKey} in config/chains.json or OFT_${chainConfig.chainKey.toUpperCase()}.`
+    )
+  }
+}
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+function decodeSendArgs(data: Hex) {
+  try {
+    return decodeFunctionData({ abi: SEND_ABI, data }).args
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Decode an EVM (or Tron) `send` / `sendToken` call
+ */
+export function decodeEvmSend(contract: string, data: Hex): DecodedSend {
+  const { args } = decodeFunctionData({ abi: SEND_ABI, data })
+  const [sendParam, fee, refundAddress] = args
+  return {
+    contract,
+    dstEid: sendParam.dstEid,
+    to: sendParam.to,
+    amountLD: sendParam.amountLD,
+    minAmountLD: sendParam.minAmountLD,
+    composeMsg: sendParam.composeMsg,
+    refundAddress,
+    nativeFee: fee.nativeFee,
+    lzTokenFee: fee.lzTokenFee,
+  }
+}
+
+/**
+ * List the top-level instructions of a base64 Solana transaction
+ */
+function decodeSolanaInstructions(data: string): { programId: string; data: Buffer }[] {
+  const buffer = Buffer.from(data, 'base64')
+  let message: VersionedMessage
+  try {
+    message = VersionedTransaction.deserialize(buffer).message
+  } catch {
+    message = VersionedMessage.deserialize(buffer)
+  }
+
+  // Program IDs are always static keys, never loaded from lookup tables
+  return message.compiledInstructions.map((instruction) => ({
+    programId: message.staticAccountKeys[instruction.programIdIndex]?.toBase58() ?? 'unknown',
+    data: Buffer.from(instruction.data),
+  }))
+}
+
+/**
+ * Decode an OFT `send` instruction
+ *
+ * Layout after the discriminator: dst_eid (u32), to ([u8; 32]), amount_ld
+ * (u64), min_amount_ld (u64), options (Vec<u8>), compose_msg (Option<Vec<u8>>).
+ *
+ * @returns Undefined if the instruction isn't an OFT send
+ */
+function decodeSolanaSendInstruction(programId: string, ix: Buffer): DecodedSend | undefined {
+  if (ix.length < 64 || !ix.subarray(0, 8).equals(SOLANA_SEND_DISCRIMINATOR)) {
+    return undefined
+  }
+
+  const optionsLength = ix.readUInt32LE(60)
+  const composeOffset = 64 + optionsLength
+  const hasCompose = ix[composeOffset] === 1
+  const composeLength = hasCompose ? ix.readUInt32LE(composeOffset + 1) : 0
+
+  return {
+    contract: programId,
+    dstEid: ix.readUInt32LE(8),
+    to: toHex(ix.subarray(12, 44)),
+    amountLD: ix.readBigUInt64LE(44),
+    minAmountLD: ix.readBigUInt64LE(52),
+    composeMsg: toHex(hasCompose ? ix.subarray(composeOffset + 5, composeOffset + 5 + composeLength) : new Uint8Array()),
+  }
+}
+
+/**
+ * Find and decode the OFT `send` instruction in a base64 Solana transaction
+ *
+ * @returns Undefined if the transaction has no OFT send instruction
+ */
+export function decodeSolanaSend(data: string): DecodedSend | undefined {
+  for (const instruction of decodeSolanaInstructions(data)) {
+    const send = decodeSolanaSendInstruction(instruction.programId, instruction.data)
+    if (send) {
+      return send
+    }
+  }
+  return undefined
+}
+
+/**
+ * Decode a Solana bridge transaction, allowing only the OFT send and
+ * compute budget instructions
+ *
+ * Any other instruction (an SPL token or SOL transfer, a token approval, an
+ * unknown program) is rejected, as is a send to a program that isn't the
+ * chain's configured OFT program.
+ *
+ * @throws If the transaction has any other instruction
+ */
+function decodeSolanaBridgeTransaction(srcConfig: ChainConfig, data: string): DecodedSend[] {
+  const trusted = getTrustedContracts(srcConfig)
+  if (trusted.length === 0) {
+    throw new Error(
+      `no OFT program configured for ${srcConfig.name}. ` +
+        `Set "oftAddress" for ${srcConfig.chainKey} in config/chains.json or OFT_${srcConfig.chainKey.toUpperCase()} to the PYUSD OFT program ID.`
+    )
+  }
+
+  const sends: DecodedSend[] = []
+  for (const { programId, data: ix } of decodeSolanaInstructions(data)) {
+    if (programId === SOLANA_COMPUTE_BUDGET_PROGRAM) {
+      continue
+    }
+    const send = decodeSolanaSendInstruction(programId, ix)
+    if (!trusted.includes(programId)) {
+      throw new Error(send
+        ? `sends through program ${programId}, which is not the configured OFT program (${trusted.join(', ')})`
+        : `unexpected instruction for program ${programId} (only the OFT send is allowed)`)
+    }
+    if (!send) {
+      throw new Error(`unexpected OFT program instruction (discriminator ${toHex(ix.subarray(0, 8))})`)
+    }
+    sends.push(send)
+  }
+  return sends
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Check a decoded send against the transfer the user asked for
+ *
+ * @throws On any mismatch
+ */
+function verifySend(send: DecodedSend, intent: TransferIntent): void {
+  const { srcConfig, dstConfig } = intent
+  const mismatches: string[] = []
+
+  const expectedEid = getEndpointId(dstConfig)
+  if (send.dstEid !== expectedEid) {
+    mismatches.push(`destination endpoint ${send.dstEid} (expected ${expectedEid} for ${dstConfig.name})`)
+  }
+
+  const expectedTo = recipientToBytes32(dstConfig, intent.dstAddress)
+  if (send.to.toLowerCase() !== expectedTo.toLowerCase()) {
+    mismatches.push(`recipient ${send.to} (expected ${intent.dstAddress})`)
+  }
+
+  if (send.amountLD !== intent.amountLD) {
+    mismatches.push(`amount ${send.amountLD} (expected ${intent.amountLD})`)
+  }
+
+  if (send.minAmountLD < intent.minAmountLD || send.minAmountLD > send.amountLD) {
+    mismatches.push(`minimum amount ${send.minAmountLD} (expected ${intent.minAmountLD} to ${send.amountLD})`)
+  }
+
+  // A compose message would run arbitrary logic with the funds on arrival
+  if (send.composeMsg !== '0x') {
+    mismatches.push('unexpected compose message')
+  }
+
+  if (send.refundAddress !== undefined
+    && normalizeAddress(srcConfig, send.refundAddress) !== normalizeAddress(srcConfig, intent.srcAddress)) {
+    mismatches.push(`fee refund address ${send.refundAddress} (expected ${intent.srcAddress})`)
+  }
+
+  if (mismatches.length > 0) {
+    throw new Error(`Bridge step does not match the requested transfer: ${mismatches.join('; ')}`)
+  }
+}
+
+/**
+ * Decode and verify every step of a quote before signing
+ *
+ * EVM and Tron steps must be an `approve` of the source token for a trusted
+ * OFT contract (for at least the transfer amount) with no native value, or a
+ * `send` / `sendToken` call on a trusted OFT contract whose value is exactly
+ * its native fee argument, paid without the LZ token. Solana steps may only contain compute
+ * budget instructions and a `send` to the configured OFT program. Every send
+ * must match the destination, recipient and amounts.
+ *
+ * @returns A one-line summary of each step
+ * @throws If any step doesn't match the intent or the allowlist
+ */
+export function verifyQuoteCalldata(quote: StargateQuote, intent: TransferIntent): VerifiedStep[] {
+  const { srcConfig } = intent
+  const verified: VerifiedStep[] = []
+  let sends = 0
+
+  for (const [i, step] of quote.steps.entries()) {
+    const label = `Step ${i + 1} (${step.type})`
+
+    try {
+      if (srcConfig.chainType === 'solana') {
+        const stepSends = decodeSolanaBridgeTransaction(srcConfig, step.transaction.data)
+        if (stepSends.length === 0) {
+          throw new Error('no OFT send instruction found')
+        }
+        for (const send of stepSends) {
+          verifySend(send, intent)
+          sends++
+          verified.push({ type: step.type, summary: `send ${send.amountLD} via ${send.contract} to eid ${send.dstEid}` })
+        }
+        continue
+      }
+
+      const to = step.transaction.to
+      const data = step.transaction.data as Hex
+      const value = BigInt(step.transaction.value || 0)
+      if (!to) {
+        throw new Error('missing contract address')
+      }
+
+      const bridge = quote.steps.find((other) => other !== step && other.transaction.to)
+
+      let approve: { spender: string; amount: bigint } | undefined
+      try {
+        const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data })
+        if (functionName === 'approve') {
+          approve = { spender: args[0], amount: args[1] }
+        }
+      } catch {
+        // Not an ERC-20 call
+      }
+
+      if (approve) {
+        if (normalizeAddress(srcConfig, to) !== normalizeAddress(srcConfig, srcConfig.tokenAddress)) {
+          throw new Error(`approves token ${to}, expected ${srcConfig.symbol} at ${srcConfig.tokenAddress}`)
+        }
+        requireTrusted(srcConfig, approve.spender, 'Spender')
+        if (bridge?.transaction.to
+          && normalizeAddress(srcConfig, approve.spender) !== normalizeAddress(srcConfig, bridge.transaction.to)) {
+          throw new Error(`approves ${approve.spender} but the bridge step calls ${bridge.transaction.to}`)
+        }
+        if (approve.amount < intent.amountLD) {
+          throw new Error(`approves ${approve.amount}, less than the transfer amount ${intent.amountLD}`)
+        }
+        if (value !== 0n) {
+          throw new Error(`sends ${value} native value with an approval`)
+        }
+        verified.push({ type: step.type, summary: `approve ${approve.amount} for ${approve.spender}` })
+        continue
+      }
+
+      requireTrusted(srcConfig, to, 'Contract')
+      let send: DecodedSend
+      try {
+        send = decodeEvmSend(to, data)
+      } catch {
+        throw new Error(`calls an unrecognized function (selector ${data.slice(0, 10)}) on ${to}`)
+      }
+      verifySend(send, intent)
+      if (value !== send.nativeFee) {
+        throw new Error(`sends ${value} native value, but its native fee argument is ${send.nativeFee}`)
+      }
+      if (send.lzTokenFee !== 0n) {
+        throw new Error(`pays ${send.lzTokenFee} in the LZ token`)
+      }
+      sends++
+      verified.push({ type: step.type, summary: `send ${send.amountLD} via ${to} to eid ${send.dstEid}, fee ${send.nativeFee}` })
+    } catch (error) {
+      throw new Error(`${label}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  if (sends !== 1) {
+    throw new Error(`Expected exactly one bridge send in the quote, found ${sends}`)
+  }
+
+  return verified
+}
+
+/**
+ * Check an EVM quote's native fee against the send contract's own quoteSend
+ *
+ * Call after verifyQuoteCalldata. quoteSend gets the quote's own send
+ * parameters, so Stargate bus and taxi sends are priced the way the contract
+ * will charge them.
+ *
+ * @throws CalldataMismatchError If the fee exceeds quoteSend by more than MAX_NATIVE_FEE_MARGIN_PERCENT
+ */
+export async function verifyNativeFee(publicClient: PublicClient, quote: StargateQuote, intent: TransferIntent): Promise<void> {
+  for (const [i, step] of quote.steps.entries()) {
+    const to = step.transaction.to
+    const args = decodeSendArgs(step.transaction.data as Hex)
+    if (!to || !args) {
+      continue // The approval
+    }
+
+    const [sendParam, fee] = args
+    const onChain = await publicClient.readContract({ address: to, abi: QUOTE_SEND_ABI, functionName: 'quoteSend', args: [sendParam, false] })
+    if (fee.nativeFee * 100n > onChain.nativeFee * (100n + MAX_NATIVE_FEE_MARGIN_PERCENT)) {
+      throw new CalldataMismatchError(
+        `Step ${i + 1} (${step.type}): native fee ${fee.nativeFee} is more than ${MAX_NATIVE_FEE_MARGIN_PERCENT}% above quoteSend on ${to} (${onChain.nativeFee})`,
+        { srcChainKey: intent.srcConfig.chainKey, dstChainKey: intent.dstConfig.chainKey }
+      )
+    }
+  }
+}
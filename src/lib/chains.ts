@@ -10,76 +10,45 @@ import {
   sei,
 } from 'viem/chains'
 
+import { ConfigNotFoundError, InvalidConfigError, UnsupportedChainError } from './errors'
 import type { ChainConfig, ChainType } from '../types/index'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 const configDir = join(__dirname, '../../config')
-const configPath = join(configDir, 'chains.json')
 
-// Config file structure (from Stargate API)
-interface ConfigFile {
-  source: string
-  updatedAt: string
-  chains: Record<string, {
-    chainKey: string
-    chainType: ChainType
-    name: string
-    chainId: number
-    symbol: 'PYUSD' | 'PYUSD0'
-    tokenAddress: string
+// Bundled chain config, written by update-chains
+export const DEFAULT_CONFIG_PATH = join(configDir, 'chains.json')
+
+// Environment variable pointing to a chain config file to use instead
+export const CONFIG_ENV_VAR = 'PYUSD_LZ_CONFIG'
+
+// A chain as written in the config file: RPC URL and endpoint ID default by chain key
+export interface ChainConfigInput {
+  chainKey: string
+  chainType: ChainType
+  name: string
+  chainId: number
+  symbol: 'PYUSD' | 'PYUSD0'
+  tokenAddress: string
+  decimals: number
+  nativeCurrency: {
+    symbol: string
     decimals: number
-    nativeCurrency: {
-      symbol: string
-      decimals: number
-    }
-    rpcUrl?: string
-  }>
+  }
+  rpcUrl?: string
+  eid?: number
+  oftAddress?: string
 }
 
-/**
- * Load chain configs from config/chains.json
- *
- * Applies RPC URL overrides from environment variables (e.g., RPC_ETHEREUM).
- */
-function loadChainConfigs(): Record<string, ChainConfig> {
-  if (!existsSync(configPath)) {
-    console.error(`Error: Config file not found at ${configPath}`)
-    console.error(`Please run: npm run cli update-chains`)
-    process.exit(1)
-  }
-
-  try {
-    const raw = readFileSync(configPath, 'utf-8')
-    const config = JSON.parse(raw) as ConfigFile
-
-    const result: Record<string, ChainConfig> = {}
-
-    for (const [chainKey, chain] of Object.entries(config.chains)) {
-      // Apply RPC override from env if present
-      const envKey = `RPC_${chainKey.toUpperCase().replace(/-/g, '_')}`
-      const rpcUrl = process.env[envKey] || chain.rpcUrl || getDefaultRpcUrl(chainKey)
-
-      result[chainKey] = {
-        chainKey,
-        chainType: chain.chainType,
-        name: chain.name,
-        chainId: chain.chainId,
-        symbol: chain.symbol,
-        tokenAddress: chain.tokenAddress as `0x${string}`,
-        decimals: chain.decimals,
-        nativeCurrency: chain.nativeCurrency,
-        rpcUrl,
-      }
-    }
+// Config file structure (from Stargate API)
+export interface ChainConfigFile {
+  source?: string
+  updatedAt?: string
+  chains: Record<string, ChainConfigInput>
+}
 
-    return result
-  } catch (error) {
-    console.error(`Error: Failed to parse ${configPath}`)
-    if (error instanceof Error) {
-      console.error(error.message)
-    }
-    process.exit(1)
-  }
+export interface ChainRegistryOptions {
+  envOverrides?: boolean // Apply RPC_<KEY> and OFT_<KEY> environment overrides (default true)
 }
 
 /**
@@ -101,12 +70,196 @@ function getDefaultRpcUrl(chainKey: string): string {
     flow: 'https://mainnet.evm.nodes.onflow.org',
     // Solana uses @solana/web3.js clusterApiUrl by default, but can be overridden
     solana: 'https://api.mainnet-beta.solana.com',
+    tron: 'https://api.trongrid.io',
   }
   return defaults[chainKey] || `https://${chainKey}.rpc.default`
 }
 
-// Load configs at module load time
-export const CHAIN_CONFIGS = loadChainConfigs()
+/**
+ * Name of a per-chain override environment variable (e.g. RPC_ARBITRUM)
+ */
+export function getChainEnvVar(prefix: 'RPC' | 'OFT', chainKey: string): string {
+  return `${prefix}_${chainKey.toUpperCase().replace(/-/g, '_')}`
+}
+
+/**
+ * Get the LayerZero V2 endpoint ID for known chains
+ */
+export function getDefaultEndpointId(chainKey: string): number | undefined {
+  const defaults: Record<string, number> = {
+    ethereum: 30101,
+    arbitrum: 30110,
+    avalanche: 30106,
+    polygon: 30109,
+    solana: 30168,
+    fraxtal: 30255,
+    sei: 30280,
+    codex: 30323,
+    abstract: 30324,
+    flow: 30336,
+    ink: 30339,
+    plumephoenix: 30370,
+    stable: 30396,
+    tron: 30420,
+  }
+  return defaults[chainKey]
+}
+
+/**
+ * Get the PYUSD OFT adapter for known PYUSD chains
+ *
+ * PYUSD0 tokens are their own OFT, so only PYUSD chains have one.
+ */
+export function getDefaultOftAddress(chainKey: string): string | undefined {
+  const defaults: Record<string, string> = {
+    ethereum: '0xa2c323fe5a74adffad2bf3e007e36bb029606444',
+    arbitrum: '0xfab5891ed867a1195303251912013b92c4fc3a1d',
+  }
+  return defaults[chainKey]
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * A set of chain configs
+ *
+ * Build one from an object, a config file or the bundled default, and
+ * register extra chains or RPC URLs at runtime. Every function that looks up
+ * chains accepts a registry, so services can keep isolated configurations;
+ * without one they use the default registry.
+ */
+export class ChainRegistry {
+  private readonly chains = new Map<string, ChainConfig>()
+  private readonly envOverrides: boolean
+
+  constructor(chains: ChainConfigInput[] = [], options: ChainRegistryOptions = {}) {
+    this.envOverrides = options.envOverrides ?? true
+    for (const chain of chains) {
+      this.register(chain)
+    }
+  }
+
+  /**
+   * Build a registry from a config object in the config/chains.json format
+   */
+  static fromObject(config: ChainConfigFile, options?: ChainRegistryOptions): ChainRegistry {
+    return new ChainRegistry(
+      Object.entries(config.chains).map(([chainKey, chain]) => ({ ...chain, chainKey })),
+      options
+    )
+  }
+
+  /**
+   * Build a registry from a config file
+   *
+   * @throws ConfigNotFoundError If the file doesn't exist
+   * @throws InvalidConfigError If the file can't be parsed
+   */
+  static fromFile(path: string, options?: ChainRegistryOptions): ChainRegistry {
+    if (!existsSync(path)) {
+      throw new ConfigNotFoundError(path, path === DEFAULT_CONFIG_PATH ? 'Run: pyusd-lz update-chains' : undefined)
+    }
+
+    let config: ChainConfigFile
+    try {
+      config = JSON.parse(readFileSync(path, 'utf-8')) as ChainConfigFile
+    } catch (error) {
+      throw new InvalidConfigError(path, error instanceof Error ? error.message : String(error))
+    }
+    if (!config || typeof config.chains !== 'object') {
+      throw new InvalidConfigError(path, 'missing "chains" object')
+    }
+
+    return ChainRegistry.fromObject(config, options)
+  }
+
+  /**
+   * Build a registry from $PYUSD_LZ_CONFIG, or the bundled config/chains.json
+   */
+  static fromDefault(options?: ChainRegistryOptions): ChainRegistry {
+    return ChainRegistry.fromFile(process.env[CONFIG_ENV_VAR] || DEFAULT_CONFIG_PATH, options)
+  }
+
+  /**
+   * Add a chain, or replace the chain with the same key
+   */
+  register(chain: ChainConfigInput): ChainConfig {
+    const chainKey = chain.chainKey.toLowerCase()
+    const rpcOverride = this.envOverrides ? process.env[getChainEnvVar('RPC', chainKey)] : undefined
+    const oftOverride = this.envOverrides ? process.env[getChainEnvVar('OFT', chainKey)] : undefined
+
+    const config: ChainConfig = {
+      chainKey,
+      chainType: chain.chainType,
+      name: chain.name,
+      chainId: chain.chainId,
+      symbol: chain.symbol,
+      tokenAddress: chain.tokenAddress as `0x${string}`,
+      decimals: chain.decimals,
+      nativeCurrency: chain.nativeCurrency,
+      rpcUrl: rpcOverride || chain.rpcUrl || getDefaultRpcUrl(chainKey),
+      eid: chain.eid ?? getDefaultEndpointId(chainKey),
+      oftAddress: (oftOverride || chain.oftAddress || getDefaultOftAddress(chainKey)) as `0x${string}` | undefined,
+    }
+    this.chains.set(chainKey, config)
+    return config
+  }
+
+  /**
+   * Point a registered chain at another RPC endpoint
+   *
+   * @throws UnsupportedChainError If the chain isn't registered
+   */
+  setRpcUrl(chainKey: string, rpcUrl: string): ChainConfig {
+    const config = { ...this.get(chainKey), rpcUrl }
+    this.chains.set(config.chainKey, config)
+    return config
+  }
+
+  has(chainKey: string): boolean {
+    return this.chains.has(chainKey.toLowerCase())
+  }
+
+  /**
+   * @throws UnsupportedChainError If the chain isn't registered
+   */
+  get(chainKey: string): ChainConfig {
+    const config = this.chains.get(chainKey.toLowerCase())
+    if (!config) {
+      throw new UnsupportedChainError(chainKey, [...this.chains.keys()])
+    }
+    return config
+  }
+
+  list(): ChainConfig[] {
+    return [...this.chains.values()]
+  }
+}
+
+let defaultRegistry: ChainRegistry | undefined
+
+/**
+ * The registry used when none is passed, loaded from the default config on first use
+ *
+ * @throws ConfigNotFoundError If the config file doesn't exist
+ */
+export function getDefaultRegistry(): ChainRegistry {
+  defaultRegistry ??= ChainRegistry.fromDefault()
+  return defaultRegistry
+}
+
+/**
+ * Replace the default registry (the CLI does this for --config)
+ */
+export function setDefaultRegistry(registry: ChainRegistry): void {
+  defaultRegistry = registry
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
 
 // Map chain keys to viem chain definitions
 const VIEM_CHAINS: Record<string, Chain> = {
@@ -117,24 +270,51 @@ const VIEM_CHAINS: Record<string, Chain> = {
   sei,
 }
 
-export function getChainConfig(chainKey: string): ChainConfig {
-  const config = CHAIN_CONFIGS[chainKey.toLowerCase()]
-  if (!config) {
-    const supported = Object.keys(CHAIN_CONFIGS).join(', ')
-    throw new Error(`Chain "${chainKey}" not supported. Supported chains: ${supported}`)
-  }
+/**
+ * Chain configs by chain key
+ */
+export function getChainConfigs(registry = getDefaultRegistry()): Record<string, ChainConfig> {
+  return Object.fromEntries(registry.list().map((config) => [config.chainKey, config]))
+}
 
-  return config
+/**
+ * Chain configs by chain key, read from the default registry on each access
+ *
+ * @deprecated Use getChainConfigs() or getDefaultRegistry(), which also see
+ *   chains registered after import and accept a registry
+ */
+export const CHAIN_CONFIGS: Readonly<Record<string, ChainConfig>> = new Proxy({} as Record<string, ChainConfig>, {
+  get: (_target, key) => (typeof key === 'string' ? getChainConfigs()[key] : undefined),
+  has: (_target, key) => typeof key === 'string' && key in getChainConfigs(),
+  ownKeys: () => Object.keys(getChainConfigs()),
+  getOwnPropertyDescriptor: (_target, key) => {
+    const config = typeof key === 'string' ? getChainConfigs()[key] : undefined
+    return config ? { value: config, enumerable: true, configurable: true, writable: false } : undefined
+  },
+  set: () => false,
+  deleteProperty: () => false,
+})
+
+/**
+ * @throws UnsupportedChainError If the chain isn't in the registry
+ */
+export function getChainConfig(chainKey: string, registry = getDefaultRegistry()): ChainConfig {
+  return registry.get(chainKey)
 }
 
-export function getViemChain(chainKey: string): Chain {
+/**
+ * Get the viem chain definition for a chain, using the config's RPC URL
+ * for chains viem doesn't know
+ */
+export function getViemChain(chainKeyOrConfig: string | ChainConfig, registry?: ChainRegistry): Chain {
+  const chainKey = typeof chainKeyOrConfig === 'string' ? chainKeyOrConfig : chainKeyOrConfig.chainKey
   const chain = VIEM_CHAINS[chainKey.toLowerCase()]
   if (chain) {
     return chain
   }
 
   // For chains not in viem, build a minimal chain definition
-  const config = getChainConfig(chainKey)
+  const config = typeof chainKeyOrConfig === 'string' ? getChainConfig(chainKeyOrConfig, registry) : chainKeyOrConfig
   return {
     id: config.chainId,
     name: config.name,
@@ -149,8 +329,8 @@ export function getViemChain(chainKey: string): Chain {
   }
 }
 
-export function getSupportedChains(): ChainConfig[] {
-  return Object.values(CHAIN_CONFIGS)
+export function getSupportedChains(registry = getDefaultRegistry()): ChainConfig[] {
+  return registry.list()
 }
 
 export function isEvmChain(config: ChainConfig): boolean {
@@ -161,12 +341,16 @@ export function isSolanaChain(config: ChainConfig): boolean {
   return config.chainType === 'solana'
 }
 
-export function getPyusdChains(): ChainConfig[] {
-  return Object.values(CHAIN_CONFIGS).filter((c) => c.symbol === 'PYUSD')
+export function isTronChain(config: ChainConfig): boolean {
+  return config.chainType === 'tron'
+}
+
+export function getPyusdChains(registry = getDefaultRegistry()): ChainConfig[] {
+  return registry.list().filter((c) => c.symbol === 'PYUSD')
 }
 
-export function getPyusd0Chains(): ChainConfig[] {
-  return Object.values(CHAIN_CONFIGS).filter((c) => c.symbol === 'PYUSD0')
+export function getPyusd0Chains(registry = getDefaultRegistry()): ChainConfig[] {
+  return registry.list().filter((c) => c.symbol === 'PYUSD0')
 }
 
 /**
@@ -177,10 +361,11 @@ export function getPyusd0Chains(): ChainConfig[] {
  */
 export function resolveChainConfigsForTransfer(
   sourceKey: string,
-  destKey: string
+  destKey: string,
+  registry = getDefaultRegistry()
 ): { srcConfig: ChainConfig; dstConfig: ChainConfig } {
   return {
-    srcConfig: getChainConfig(sourceKey),
-    dstConfig: getChainConfig(destKey),
+    srcConfig: getChainConfig(sourceKey, registry),
+    dstConfig: getChainConfig(destKey, registry),
   }
 }
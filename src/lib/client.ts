@@ -1,16 +1,16 @@
 import {createPublicClient, createWalletClient, http, type PublicClient, type WalletClient} from 'viem'
 import {privateKeyToAccount} from 'viem/accounts'
 
-import {getChainConfig, getViemChain} from './chains'
+import {type ChainRegistry, getChainConfig, getViemChain} from './chains'
 import type {ChainConfig} from '../types'
 
 /**
  * Create a public client for reading from a chain.
- * Accepts either a chain key string or a ChainConfig object.
+ * Accepts either a chain key string (looked up in the registry) or a ChainConfig object.
  */
-export function createPublicClientForChain(chainKeyOrConfig: string | ChainConfig): PublicClient {
-  const config = typeof chainKeyOrConfig === 'string' ? getChainConfig(chainKeyOrConfig) : chainKeyOrConfig
-  const viemChain = getViemChain(config.chainKey)
+export function createPublicClientForChain(chainKeyOrConfig: string | ChainConfig, registry?: ChainRegistry): PublicClient {
+  const config = typeof chainKeyOrConfig === 'string' ? getChainConfig(chainKeyOrConfig, registry) : chainKeyOrConfig
+  const viemChain = getViemChain(config)
 
   return createPublicClient({
     chain: viemChain,
@@ -20,11 +20,15 @@ export function createPublicClientForChain(chainKeyOrConfig: string | ChainConfi
 
 /**
  * Create a wallet client for signing transactions.
- * Accepts either a chain key string or a ChainConfig object.
+ * Accepts either a chain key string (looked up in the registry) or a ChainConfig object.
  */
-export function createWalletClientForChain(chainKeyOrConfig: string | ChainConfig, privateKey: `0x${string}`): WalletClient {
-  const config = typeof chainKeyOrConfig === 'string' ? getChainConfig(chainKeyOrConfig) : chainKeyOrConfig
-  const viemChain = getViemChain(config.chainKey)
+export function createWalletClientForChain(
+  chainKeyOrConfig: string | ChainConfig,
+  privateKey: `0x${string}`,
+  registry?: ChainRegistry
+): WalletClient {
+  const config = typeof chainKeyOrConfig === 'string' ? getChainConfig(chainKeyOrConfig, registry) : chainKeyOrConfig
+  const viemChain = getViemChain(config)
   const account = privateKeyToAccount(privateKey)
 
   return createWalletClient({
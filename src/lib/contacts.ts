@@ -0,0 +1,113 @@
+/**
+ * Address book of recipients
+ *
+ * Contacts map a name to one address per chain type, so `--to alice` can
+ * resolve to the right address format for the destination chain. They are
+ * stored in the "contacts" section of the user config file.
+ */
+
+import { InvalidInputError } from './errors'
+import { type Contact, isValidAddressForChainType, loadUserConfig, saveUserConfig } from './user-config'
+import type { ChainType } from '../types/index'
+
+const CHAIN_TYPES: ChainType[] = ['evm', 'solana', 'tron']
+
+export interface ResolvedRecipient {
+  address: string
+  contact?: string // Contact name the address was resolved from
+}
+
+/**
+ * Validate a contact name
+ *
+ * Names can't look like addresses, so `--to` is never ambiguous.
+ *
+ * @throws InvalidInputError If the name isn't valid
+ */
+function validateContactName(name: string): void {
+  if (!/^[A-Za-z0-9._-]+$/.test(name)) {
+    throw new InvalidInputError(`Invalid contact name "${name}": use letters, numbers, ".", "-" and "_"`, { name })
+  }
+  if (CHAIN_TYPES.some((chainType) => isValidAddressForChainType(chainType, name))) {
+    throw new InvalidInputError(`Invalid contact name "${name}": names can't be addresses`, { name })
+  }
+}
+
+export function listContacts(): Record<string, Contact> {
+  return loadUserConfig().contacts ?? {}
+}
+
+export function getContact(name: string): Contact | undefined {
+  return listContacts()[name]
+}
+
+/**
+ * Add a contact, or add addresses to an existing one
+ *
+ * @returns The saved contact, and whether it is new
+ * @throws InvalidInputError If the name or an address isn't valid
+ */
+export function saveContact(name: string, addresses: Contact): { contact: Contact; created: boolean } {
+  validateContactName(name)
+  const config = loadUserConfig()
+  const existing = config.contacts?.[name]
+  const contact: Contact = { ...existing }
+  for (const chainType of CHAIN_TYPES) {
+    const address = addresses[chainType]
+    if (address === undefined) {
+      continue
+    }
+    if (!isValidAddressForChainType(chainType, address)) {
+      throw new InvalidInputError(`"${address}" is not a valid ${chainType} address`, { name, chainType, address })
+    }
+    contact[chainType] = address
+  }
+
+  config.contacts = { ...config.contacts, [name]: contact }
+  saveUserConfig(config)
+  return { contact, created: !existing }
+}
+
+/**
+ * @returns False if there is no such contact
+ */
+export function removeContact(name: string): boolean {
+  const config = loadUserConfig()
+  if (!config.contacts?.[name]) {
+    return false
+  }
+  delete config.contacts[name]
+  saveUserConfig(config)
+  return true
+}
+
+/**
+ * Resolve a --to value (an address or a contact name) for a destination chain type
+ *
+ * @throws InvalidInputError If the value is neither, or the contact has no
+ *   address for the chain type
+ */
+export function resolveRecipient(value: string, chainType: ChainType): ResolvedRecipient {
+  if (isValidAddressForChainType(chainType, value)) {
+    return { address: value }
+  }
+
+  const contact = getContact(value)
+  if (!contact) {
+    throw new InvalidInputError(
+      `"${value}" is neither a valid ${chainType} address nor a contact`,
+      { value, chainType },
+      'List contacts with: pyusd-lz contacts list'
+    )
+  }
+
+  const address = contact[chainType]
+  if (!address) {
+    throw new InvalidInputError(
+      `Contact "${value}" has no ${chainType} address`,
+      { contact: value, chainType },
+      `Add one with: pyusd-lz contacts add ${value} --${chainType} <address>`
+    )
+  }
+  return { address, contact: value }
+}
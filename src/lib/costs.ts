@@ -0,0 +1,220 @@
+/**
+ * All-in transfer cost estimates
+ *
+ * Combines the protocol fee (tokens sent minus tokens received), the native
+ * LayerZero messaging fee attached to the bridge step and the gas for every
+ * step. Native costs can be valued in USD using Chainlink price feeds read
+ * on Ethereum mainnet.
+ */
+
+import { type Address, formatUnits, type Hex, parseAbi } from 'viem'
+
+import { getChainConfig } from './chains'
+import { createPublicClientForChain } from './client'
+import { getQuoteNativeValue, type NativeUsdPrice, sortQuotesByReceived, type StargateQuote, type StargateQuoteResult } from './stargate'
+import type { ChainConfig } from '../types/index'
+
+// Chainlink <SYMBOL> / USD feeds on Ethereum mainnet, keyed by native currency symbol
+const CHAINLINK_USD_FEEDS: Record<string, Address> = {
+  ETH: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+  AVAX: '0xFF3EEb22B5E3dE6e705b44749C2559d704923FD7',
+  MATIC: '0x7bAC85A8a13A4BcD8abb3eB7d6b4d632c5a57676',
+  SOL: '0x4ffC43a60e009B551865A93d232E33Fce9f01507',
+}
+
+// Prices older than this are treated as unavailable
+const MAX_PRICE_AGE_SECONDS = 24 * 60 * 60
+
+const AGGREGATOR_ABI = parseAbi([
+  'function decimals() view returns (uint8)',
+  'function description() view returns (string)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+])
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StepGasEstimate {
+  type: string
+  gas?: bigint // Undefined when the step can't be estimated yet (e.g. bridge before approve)
+  error?: string
+}
+
+export interface QuoteCostBreakdown {
+  protocolFee: bigint // Token base units
+  messagingFee: bigint // Native base units (bridge step value)
+  steps: StepGasEstimate[] // Empty for non-EVM source chains
+  gasPrice?: bigint
+  gasCost: bigint // Native base units, estimated steps only
+  totalNative: bigint // messagingFee + gasCost
+  complete: boolean // False if any step's gas couldn't be estimated
+  nativeUsdPrice?: number
+  totalNativeUsd?: number
+}
+
+// ============================================================================
+// Price Feeds
+// ============================================================================
+
+/**
+ * Read the USD price of a native currency from Chainlink
+ *
+ * @returns Price in USD, or undefined if no feed is known or the price is stale
+ */
+export async function getNativeUsdPrice(symbol: string): Promise<number | undefined> {
+  const feed = CHAINLINK_USD_FEEDS[symbol.toUpperCase()]
+  if (!feed) {
+    return undefined
+  }
+
+  const client = createPublicClientForChain(getChainConfig('ethereum'))
+  const [description, decimals, [, answer, , updatedAt]] = await Promise.all([
+    client.readContract({ address: feed, abi: AGGREGATOR_ABI, functionName: 'description' }),
+    client.readContract({ address: feed, abi: AGGREGATOR_ABI, functionName: 'decimals' }),
+    client.readContract({ address: feed, abi: AGGREGATOR_ABI, functionName: 'latestRoundData' }),
+  ])
+
+  // Guard against a feed that prices something else
+  if (description.split(' / ')[0].toUpperCase() !== symbol.toUpperCase()) {
+    throw new Error(`Chainlink feed ${feed} is "${description}", expected ${symbol} / USD`)
+  }
+
+  const age = Math.floor(Date.now() / 1000) - Number(updatedAt)
+  if (answer <= 0n || age > MAX_PRICE_AGE_SECONDS) {
+    return undefined
+  }
+
+  return Number(formatUnits(answer, decimals))
+}
+
+/**
+ * Rank a quote result by amount received minus the native fee in USD
+ *
+ * Keeps the received-then-fee order when there is only one quote, the chain
+ * has no price feed or the price can't be read.
+ */
+export async function rankQuotesByNetUsd(chainConfig: ChainConfig, result: StargateQuoteResult): Promise<StargateQuoteResult> {
+  if (!result.success || result.quotes.length < 2) {
+    return result
+  }
+
+  let usd: number | undefined
+  try {
+    usd = await getNativeUsdPrice(chainConfig.nativeCurrency.symbol)
+  } catch {
+    // Ranking falls back to received-then-fee order
+  }
+  if (usd === undefined) {
+    return result
+  }
+
+  const price: NativeUsdPrice = { usd, decimals: chainConfig.nativeCurrency.decimals }
+  const quotes = sortQuotesByReceived(result.quotes, price)
+  return {
+    ...result,
+    quotes,
+    bestQuote: quotes[0],
+    srcAmount: quotes[0].srcAmount,
+    dstAmount: quotes[0].dstAmount,
+    stepCount: quotes[0].steps.length,
+    nativeUsdPrice: usd,
+  }
+}
+
+// ============================================================================
+// Cost Estimates
+// ============================================================================
+
+/**
+ * Estimate the gas for each step of a quote on an EVM source chain
+ *
+ * Steps are estimated independently against current state, so a bridge step
+ * that needs the preceding approval typically can't be estimated yet.
+ */
+export async function estimateQuoteStepGas(
+  chainConfig: ChainConfig,
+  quote: StargateQuote,
+  from: Address
+): Promise<StepGasEstimate[]> {
+  const client = createPublicClientForChain(chainConfig)
+
+  return Promise.all(
+    quote.steps.map(async (step): Promise<StepGasEstimate> => {
+      try {
+        const gas = await client.estimateGas({
+          account: from,
+          to: step.transaction.to as Address,
+          data: step.transaction.data as Hex,
+          value: step.transaction.value ? BigInt(step.transaction.value) : undefined,
+        })
+        return { type: step.type, gas }
+      } catch (error) {
+        return { type: step.type, error: error instanceof Error ? error.message.split('\n')[0] : String(error) }
+      }
+    })
+  )
+}
+
+/**
+ * All-in cost in USD: protocol fee (PYUSD at $1) plus native costs
+ *
+ * @returns Undefined if no native USD price is available
+ */
+export function getAllInUsd(breakdown: QuoteCostBreakdown, tokenDecimals: number): number | undefined {
+  if (breakdown.totalNativeUsd === undefined) {
+    return undefined
+  }
+  return Number(formatUnits(breakdown.protocolFee, tokenDecimals)) + breakdown.totalNativeUsd
+}
+
+/**
+ * Build the full cost breakdown for a quote
+ *
+ * @param chainConfig - Source chain
+ * @param quote - Stargate quote
+ * @param from - Sender address (gas is only estimated on EVM chains)
+ * @param options.usd - Also value native costs in USD via Chainlink
+ */
+export async function getQuoteCostBreakdown(
+  chainConfig: ChainConfig,
+  quote: StargateQuote,
+  from: string,
+  options: { usd?: boolean } = {}
+): Promise<QuoteCostBreakdown> {
+  const protocolFee = BigInt(quote.srcAmount) - BigInt(quote.dstAmount)
+  const messagingFee = getQuoteNativeValue(quote)
+
+  let steps: StepGasEstimate[] = []
+  let gasPrice: bigint | undefined
+  let gasCost = 0n
+
+  if (chainConfig.chainType === 'evm') {
+    const client = createPublicClientForChain(chainConfig)
+    const price = await client.getGasPrice()
+    steps = await estimateQuoteStepGas(chainConfig, quote, from as Address)
+    gasPrice = price
+    gasCost = steps.reduce((total, step) => total + (step.gas ?? 0n) * price, 0n)
+  }
+
+  const totalNative = messagingFee + gasCost
+  const breakdown: QuoteCostBreakdown = {
+    protocolFee,
+    messagingFee,
+    steps,
+    gasPrice,
+    gasCost,
+    totalNative,
+    complete: steps.every((step) => step.gas !== undefined),
+  }
+
+  if (options.usd) {
+    breakdown.nativeUsdPrice = await getNativeUsdPrice(chainConfig.nativeCurrency.symbol)
+    if (breakdown.nativeUsdPrice !== undefined) {
+      breakdown.totalNativeUsd =
+        Number(formatUnits(totalNative, chainConfig.nativeCurrency.decimals)) * breakdown.nativeUsdPrice
+    }
+  }
+
+  return breakdown
+}
@@ -0,0 +1,164 @@
+/**
+ * Typed errors thrown by the library
+ *
+ * Library modules throw these instead of printing or exiting. Every error
+ * carries an ErrorCode (the CLI exits with the code's EXIT_CODES status) and
+ * the structured context of the failure, so callers can react without
+ * parsing messages.
+ */
+
+import type { ChainType } from '../types/index'
+
+// Exit code for each error code (see README "JSON Output")
+export const EXIT_CODES = {
+  ERROR: 1, // Unexpected failure
+  DELIVERY_TIMEOUT: 5, // A LayerZero message didn't reach a terminal state in time (status --watch)
+  INVALID_INPUT: 64, // Bad argument, option or input file
+  CALLDATA_MISMATCH: 65, // Quote calldata didn't match the request; nothing was signed
+  NOT_FOUND: 66, // Unknown journal, keystore, file or message
+  INSUFFICIENT_BALANCE: 67, // Not enough tokens or native gas to send
+  QUOTE_UNAVAILABLE: 69, // No quote or route available
+  TRANSACTION_FAILED: 70, // A transaction failed, reverted or couldn't be sent
+  NETWORK_ERROR: 75, // RPC or API request failed
+  SIGNER_REQUIRED: 78, // No signing key configured for the chain type
+} as const
+
+export type ErrorCode = keyof typeof EXIT_CODES
+
+/**
+ * Base class of every typed error
+ */
+export class PyusdError<Context extends object = Record<string, unknown>> extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly context: Context,
+    readonly hint?: string
+  ) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+/**
+ * A required config file doesn't exist
+ */
+export class ConfigNotFoundError extends PyusdError<{ path: string }> {
+  constructor(path: string, hint?: string) {
+    super('NOT_FOUND', `Config file not found at ${path}`, { path }, hint)
+  }
+}
+
+/**
+ * A config file exists but can't be parsed
+ */
+export class InvalidConfigError extends PyusdError<{ path: string; reason: string }> {
+  constructor(path: string, reason: string) {
+    super('INVALID_INPUT', `Failed to parse ${path}: ${reason}`, { path, reason })
+  }
+}
+
+/**
+ * A chain key that isn't in the chain config
+ */
+export class UnsupportedChainError extends PyusdError<{ chainKey: string; supported: string[] }> {
+  constructor(chainKey: string, supported: string[]) {
+    super('INVALID_INPUT', `Chain "${chainKey}" not supported. Supported chains: ${supported.join(', ')}`, { chainKey, supported })
+  }
+}
+
+/**
+ * An argument or option that isn't valid for the request
+ */
+export class InvalidInputError extends PyusdError {
+  constructor(message: string, context: Record<string, unknown> = {}, hint?: string) {
+    super('INVALID_INPUT', message, context, hint)
+  }
+}
+
+/**
+ * No signing key is configured for a chain type
+ */
+export class MissingKeyError extends PyusdError<{ chainType: ChainType }> {
+  constructor(chainType: ChainType, message: string, hint?: string) {
+    super('SIGNER_REQUIRED', message, { chainType }, hint)
+  }
+}
+
+export type QuoteFailureReason =
+  | 'api-error' // The quote API answered with an error status
+  | 'network-error' // The quote API or RPC couldn't be reached
+  | 'no-routes' // No route offered for the pair and amount
+  | 'invalid-routes' // Every route offered was unusable
+  | 'contract-error' // Quoting from the OFT contract failed
+
+export interface QuoteFailureContext {
+  reason: QuoteFailureReason
+  srcChainKey: string
+  dstChainKey: string
+  status?: number // HTTP status for api-error
+}
+
+/**
+ * No usable quote for a transfer
+ */
+export class QuoteUnavailableError extends PyusdError<QuoteFailureContext> {
+  constructor(message: string, context: QuoteFailureContext) {
+    super('QUOTE_UNAVAILABLE', message, context)
+  }
+}
+
+/**
+ * The sender doesn't hold enough tokens for a transfer
+ */
+export class InsufficientBalanceError extends PyusdError<{
+  chainKey: string
+  address: string
+  balance: bigint
+  required: bigint
+}> {
+  constructor(message: string, context: InsufficientBalanceError['context']) {
+    super('INSUFFICIENT_BALANCE', message, context)
+  }
+}
+
+/**
+ * The quote's calldata doesn't match the requested transfer (nothing was signed)
+ */
+export class CalldataMismatchError extends PyusdError<{ srcChainKey: string; dstChainKey: string }> {
+  constructor(message: string, context: CalldataMismatchError['context']) {
+    super('CALLDATA_MISMATCH', `Refusing to sign: ${message}`, context)
+  }
+}
+
+/**
+ * A sent transaction failed on-chain
+ */
+export class TransactionRevertedError extends PyusdError<{ chainType: ChainType; txHash: string; reason?: string }> {
+  constructor(chainType: ChainType, txHash: string, reason?: string) {
+    super('TRANSACTION_FAILED', `Transaction ${txHash} ${reason ? `failed: ${reason}` : 'reverted'}`, { chainType, txHash, reason })
+  }
+}
+
+/**
+ * A journaled step's transaction is still pending, so resuming could send it twice
+ */
+export class TransactionPendingError extends PyusdError<{ chainKey: string; stepIndex: number; txHash: string }> {
+  constructor(message: string, context: TransactionPendingError['context'], hint?: string) {
+    super('TRANSACTION_FAILED', message, context, hint)
+  }
+}
+
+/**
+ * A LayerZero message didn't reach a terminal state before the wait timed out
+ */
+export class DeliveryTimeoutError extends PyusdError<{ txHash: string; lastStatus?: string }> {
+  constructor(txHash: string, lastStatus?: string) {
+    super(
+      'DELIVERY_TIMEOUT',
+      `Timed out waiting for LayerZero delivery of ${txHash} (last status: ${lastStatus || 'not indexed'})`,
+      { txHash, lastStatus },
+      `Check again with: pyusd-lz status ${txHash} --watch`
+    )
+  }
+}
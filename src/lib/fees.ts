@@ -0,0 +1,313 @@
+/**
+ * EVM fee controls and stuck transaction handling
+ *
+ * Resolves EIP-1559 fees from the chain's estimate and any user overrides,
+ * sends transactions with an explicit nonce so they can be replaced, and
+ * re-broadcasts pending transactions with bumped fees (manually through
+ * `tx speedup` / `tx cancel`, or automatically after a configurable wait).
+ */
+
+import { InvalidArgumentError } from '@commander-js/extra-typings'
+import {
+  type Address,
+  type Hex,
+  parseGwei,
+  type PublicClient,
+  type WalletClient,
+  WaitForTransactionReceiptTimeoutError,
+} from 'viem'
+
+import { TransactionRevertedError } from './errors'
+
+// Fee increase for replacements (nodes require at least 10%)
+export const DEFAULT_BUMP_PERCENT = 15
+
+// How long to wait for a receipt when no auto-bump policy is set
+export const RECEIPT_TIMEOUT_MS = 10 * 60_000
+
+// Gas limit of a plain value transfer (used to cancel)
+const TRANSFER_GAS_LIMIT = 21_000n
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FeeOptions {
+  maxFeePerGas?: bigint // Wei
+  maxPriorityFeePerGas?: bigint // Wei
+  gasLimitMultiplier?: number // Applied to the gas estimate
+}
+
+export interface AutoBumpPolicy {
+  afterMs: number // Wait for a receipt this long before bumping
+  maxBumps: number
+  percent: number
+}
+
+// EIP-1559 fees, or a legacy gas price on chains without a base fee
+export type TransactionFees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint }
+
+// Fee and auto-bump flags of the commands that send EVM transactions
+export interface FeeFlags {
+  maxFeePerGas?: bigint // --max-fee-per-gas
+  priorityFee?: bigint // --priority-fee
+  gasLimitMultiplier?: number // --gas-limit-multiplier
+  bumpAfter?: number // --bump-after, in seconds
+  maxBumps?: number // --max-bumps
+}
+
+export interface SendWithFeesParams {
+  fees?: FeeOptions
+  autoBump?: AutoBumpPolicy
+  onSubmitted?: (hash: Hex) => void // Called for the first broadcast and every replacement
+}
+
+// ============================================================================
+// Option Parsers
+// ============================================================================
+
+/**
+ * EVM fee overrides and auto-bump policy from a command's fee flags
+ */
+export function getFeeFlagOptions(flags: FeeFlags): { fees: FeeOptions; autoBump?: AutoBumpPolicy } {
+  return {
+    fees: {
+      maxFeePerGas: flags.maxFeePerGas,
+      maxPriorityFeePerGas: flags.priorityFee,
+      gasLimitMultiplier: flags.gasLimitMultiplier,
+    },
+    autoBump: flags.bumpAfter
+      ? { afterMs: flags.bumpAfter * 1000, maxBumps: flags.maxBumps ?? 3, percent: DEFAULT_BUMP_PERCENT }
+      : undefined,
+  }
+}
+
+/**
+ * Commander option parser for fee amounts in gwei
+ */
+export function parseGweiOption(value: string): bigint {
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new InvalidArgumentError('Fee must be a non-negative number of gwei.')
+  }
+  return parseGwei(value)
+}
+
+/**
+ * Commander option parser for --gas-limit-multiplier
+ */
+export function parseGasLimitMultiplier(value: string): number {
+  const multiplier = Number(value)
+  if (!Number.isFinite(multiplier) || multiplier < 1 || multiplier > 10) {
+    throw new InvalidArgumentError('Gas limit multiplier must be between 1 and 10.')
+  }
+  return multiplier
+}
+
+/**
+ * Commander option parser for --bump (percent fee increase)
+ */
+export function parseBumpPercent(value: string): number {
+  const percent = Number(value)
+  if (!Number.isFinite(percent) || percent < 10 || percent > 1000) {
+    throw new InvalidArgumentError('Fee bump must be between 10 and 1000 percent.')
+  }
+  return percent
+}
+
+/**
+ * Commander option parser for --bump-after (seconds)
+ */
+export function parseBumpAfter(value: string): number {
+  const seconds = Number(value)
+  if (!Number.isInteger(seconds) || seconds < 1) {
+    throw new InvalidArgumentError('Bump delay must be a positive number of seconds.')
+  }
+  return seconds
+}
+
+/**
+ * Commander option parser for --max-bumps
+ */
+export function parseMaxBumps(value: string): number {
+  const bumps = Number(value)
+  if (!Number.isInteger(bumps) || bumps < 1 || bumps > 20) {
+    throw new InvalidArgumentError('Max bumps must be an integer between 1 and 20.')
+  }
+  return bumps
+}
+
+// ============================================================================
+// Fees
+// ============================================================================
+
+function scale(value: bigint, factor: number): bigint {
+  return (value * BigInt(Math.round(factor * 10_000))) / 10_000n
+}
+
+function maxOf(a: bigint, b: bigint): bigint {
+  return a > b ? a : b
+}
+
+/**
+ * Current fees for the chain with user overrides applied
+ *
+ * A priority fee override keeps the estimated base fee headroom. Chains
+ * without EIP-1559 use a legacy gas price (overridden by maxFeePerGas).
+ */
+export async function resolveFees(publicClient: PublicClient, options: FeeOptions = {}): Promise<TransactionFees> {
+  let estimate: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  try {
+    estimate = await publicClient.estimateFeesPerGas()
+  } catch {
+    return { gasPrice: options.maxFeePerGas ?? await publicClient.getGasPrice() }
+  }
+
+  const maxPriorityFeePerGas = options.maxPriorityFeePerGas ?? estimate.maxPriorityFeePerGas
+  const maxFeePerGas = options.maxFeePerGas
+    ?? estimate.maxFeePerGas - estimate.maxPriorityFeePerGas + maxPriorityFeePerGas
+
+  if (maxPriorityFeePerGas > maxFeePerGas) {
+    throw new Error('Priority fee cannot be higher than the max fee per gas')
+  }
+  return { maxFeePerGas, maxPriorityFeePerGas }
+}
+
+/**
+ * Bump fees for a replacement transaction
+ *
+ * Each fee is raised by `percent` and never set below the current estimate.
+ */
+export function bumpFees(previous: TransactionFees, percent: number, current?: TransactionFees): TransactionFees {
+  const factor = 1 + percent / 100
+
+  if ('gasPrice' in previous) {
+    const floor = current ? ('gasPrice' in current ? current.gasPrice : current.maxFeePerGas) : 0n
+    return { gasPrice: maxOf(scale(previous.gasPrice, factor), floor) }
+  }
+
+  const floor = current && !('gasPrice' in current) ? current : { maxFeePerGas: 0n, maxPriorityFeePerGas: 0n }
+  const maxPriorityFeePerGas = maxOf(scale(previous.maxPriorityFeePerGas, factor), floor.maxPriorityFeePerGas)
+  const maxFeePerGas = maxOf(maxOf(scale(previous.maxFeePerGas, factor), floor.maxFeePerGas), maxPriorityFeePerGas)
+  return { maxFeePerGas, maxPriorityFeePerGas }
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+/**
+ * Send a transaction with explicit fees and wait for it to be mined
+ *
+ * The nonce is fixed up front so the transaction can be replaced. With an
+ * auto-bump policy, a transaction still pending after `afterMs` is
+ * re-broadcast with bumped fees, up to `maxBumps` times.
+ *
+ * @returns Hash of the transaction that was mined (a replacement if bumped)
+ * @throws If the transaction reverts or is still pending when out of bumps
+ */
+export async function sendWithFees(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  transaction: { to: Address; data: Hex; value?: bigint },
+  params: SendWithFeesParams = {}
+): Promise<Hex> {
+  const account = walletClient.account
+  if (!account) {
+    throw new Error('Wallet client has no account configured')
+  }
+
+  let fees = await resolveFees(publicClient, params.fees)
+  const gas = params.fees?.gasLimitMultiplier
+    ? scale(await publicClient.estimateGas({ account, ...transaction }), params.fees.gasLimitMultiplier)
+    : undefined
+  const nonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' })
+
+  const send = (txFees: TransactionFees) =>
+    walletClient.sendTransaction({ account, chain: walletClient.chain, ...transaction, gas, nonce, ...txFees } as Parameters<WalletClient['sendTransaction']>[0])
+
+  let hash = await send(fees)
+  params.onSubmitted?.(hash)
+
+  const { autoBump } = params
+  for (let bumps = 0; ; bumps++) {
+    const canBump = autoBump !== undefined && bumps < autoBump.maxBumps
+
+    try {
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash,
+        timeout: canBump ? autoBump.afterMs : RECEIPT_TIMEOUT_MS,
+      })
+      if (receipt.status === 'reverted') {
+        throw new TransactionRevertedError('evm', receipt.transactionHash)
+      }
+      return receipt.transactionHash
+    } catch (error) {
+      if (!(error instanceof WaitForTransactionReceiptTimeoutError)) {
+        throw error
+      }
+      if (!canBump) {
+        throw new Error(
+          `Transaction ${hash} is still pending. Speed it up with: pyusd-lz tx speedup <chain> ${hash}`
+        )
+      }
+    }
+
+    try {
+      fees = bumpFees(fees, autoBump.percent, await resolveFees(publicClient))
+      hash = await send(fees)
+      params.onSubmitted?.(hash)
+    } catch {
+      // The pending transaction was likely mined meanwhile; keep waiting for it
+    }
+  }
+}
+
+/**
+ * Re-broadcast a pending transaction with the same nonce and bumped fees
+ *
+ * A speed-up resends the same call; a cancel replaces it with an empty
+ * transfer to the sender.
+ *
+ * @returns Hash of the replacement transaction
+ * @throws If the transaction is already mined or was sent by another account
+ */
+export async function replaceTransaction(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  hash: Hex,
+  params: { mode: 'speedup' | 'cancel'; percent?: number; fees?: FeeOptions }
+): Promise<{ hash: Hex; nonce: number; fees: TransactionFees }> {
+  const account = walletClient.account
+  if (!account) {
+    throw new Error('Wallet client has no account configured')
+  }
+
+  const transaction = await publicClient.getTransaction({ hash })
+  if (transaction.blockNumber !== null) {
+    throw new Error(`Transaction ${hash} is already mined in block ${transaction.blockNumber}`)
+  }
+  if (transaction.from.toLowerCase() !== account.address.toLowerCase()) {
+    throw new Error(`Transaction ${hash} was sent by ${transaction.from}, not the signer ${account.address}`)
+  }
+
+  const previous: TransactionFees = transaction.maxFeePerGas !== undefined && transaction.maxPriorityFeePerGas !== undefined
+    ? { maxFeePerGas: transaction.maxFeePerGas, maxPriorityFeePerGas: transaction.maxPriorityFeePerGas }
+    : { gasPrice: transaction.gasPrice! }
+  const fees = bumpFees(previous, params.percent ?? DEFAULT_BUMP_PERCENT, await resolveFees(publicClient, params.fees))
+
+  const call = params.mode === 'cancel'
+    ? { to: account.address, data: '0x' as Hex, value: 0n, gas: TRANSFER_GAS_LIMIT }
+    : { to: transaction.to!, data: transaction.input, value: transaction.value, gas: transaction.gas }
+
+  const replacement = await walletClient.sendTransaction({
+    account,
+    chain: walletClient.chain,
+    ...call,
+    nonce: transaction.nonce,
+    ...fees,
+  } as Parameters<WalletClient['sendTransaction']>[0])
+
+  return { hash: replacement, nonce: transaction.nonce, fees }
+}
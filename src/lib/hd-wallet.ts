@@ -0,0 +1,60 @@
+/**
+ * HD wallet derivation from a BIP39 mnemonic
+ *
+ * Uses the standard BIP44 paths for each chain type:
+ * - EVM:    m/44'/60'/0'/0/<index>   (MetaMask, Ledger Live)
+ * - Solana: m/44'/501'/<index>'/0'   (Phantom, Solflare)
+ * - Tron:   m/44'/195'/0'/0/<index>  (TronLink)
+ */
+
+import { Keypair } from '@solana/web3.js'
+import { mnemonicToSeedSync, validateMnemonic } from 'bip39'
+import bs58 from 'bs58'
+import { derivePath } from 'ed25519-hd-key'
+import { toHex } from 'viem'
+import { HDKey } from 'viem/accounts'
+
+import type { ChainType } from '../types/index'
+
+/**
+ * Get the BIP44 derivation path for an account index
+ */
+export function getDerivationPath(chainType: ChainType, index: number): string {
+  switch (chainType) {
+    case 'solana':
+      return `m/44'/501'/${index}'/0'`
+    case 'tron':
+      return `m/44'/195'/0'/0/${index}`
+    default:
+      return `m/44'/60'/0'/0/${index}`
+  }
+}
+
+/**
+ * Derive a private key from a mnemonic
+ *
+ * @returns Private key in the format the chain's client expects
+ *          (0x hex for EVM, base58 for Solana, hex for Tron)
+ */
+export function derivePrivateKey(mnemonic: string, chainType: ChainType, index: number): string {
+  const normalized = mnemonic.trim().split(/\s+/).join(' ')
+  if (!validateMnemonic(normalized)) {
+    throw new Error('Invalid mnemonic: check the word list and checksum')
+  }
+
+  const seed = mnemonicToSeedSync(normalized)
+  const path = getDerivationPath(chainType, index)
+
+  if (chainType === 'solana') {
+    // ed25519 derivation returns the 32-byte seed; Solana keys are seed + public key
+    const { key } = derivePath(path, seed.toString('hex'))
+    return bs58.encode(Keypair.fromSeed(key).secretKey)
+  }
+
+  const privateKey = HDKey.fromMasterSeed(seed).derive(path).privateKey
+  if (!privateKey) {
+    throw new Error(`Failed to derive key at ${path}`)
+  }
+
+  return chainType === 'tron' ? Buffer.from(privateKey).toString('hex') : toHex(privateKey)
+}
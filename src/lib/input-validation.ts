@@ -1,45 +1,117 @@
 import { getAddressFromPrivateKey } from './client'
+import { MissingKeyError } from './errors'
+import { resolveEnvSignerKey } from './signers'
 import { getSolanaAddressFromPrivateKey } from './solana-client'
+import { getTronAddressFromPrivateKey } from './tron-client'
+import { getActiveProfile } from './user-config'
+import type { ChainType } from '../types/index'
 
 /**
- * Resolve address from options or environment variable
+ * Resolve a signer key from the environment
+ *
+ * @throws MissingKeyError If no key is configured for the chain type
+ */
+function requireEnvSignerKey(chainType: ChainType, account: number | undefined, message: string, hint?: string): string {
+  const privateKey = resolveEnvSignerKey(chainType, account)
+  if (!privateKey) {
+    throw new MissingKeyError(chainType, message, hint)
+  }
+  return privateKey
+}
+
+/**
+ * The selected profile's sender address, used when no key is configured
+ * in the environment (an explicit account index always derives from MNEMONIC)
+ */
+function getProfileSender(chainType: ChainType, account: number | undefined): string | undefined {
+  if (account !== undefined || resolveEnvSignerKey(chainType)) {
+    return undefined
+  }
+  return getActiveProfile().sender?.[chainType]
+}
+
+/**
+ * Resolve address from options, environment variable or the profile sender
  *
  * @param options - Options containing optional address
  * @param options.address - Optional address to use
- * @param requirePrivateKey - If true, always requires PRIVATE_KEY even if address provided
+ * @param options.requirePrivateKey - If true, always requires a key even if address provided
+ * @param options.account - Optional HD account index (derived from MNEMONIC)
  * @returns Resolved Ethereum address
+ * @throws MissingKeyError If no key is configured in the environment
  */
 export function resolveAddress(options: {
   address?: string
   requirePrivateKey?: boolean
+  account?: number
 }): `0x${string}` {
   // If address provided and we don't specifically require private key, use it
   if (options.address && !options.requirePrivateKey) {
     return options.address as `0x${string}`
   }
 
-  // Otherwise, derive from PRIVATE_KEY
-  const privateKey = process.env.PRIVATE_KEY
-  if (!privateKey) {
-    console.error('Error: Either --address flag or PRIVATE_KEY environment variable is required')
-    process.exit(1)
+  const profileSender = options.requirePrivateKey ? undefined : getProfileSender('evm', options.account)
+  if (profileSender) {
+    return profileSender as `0x${string}`
   }
 
+  // Otherwise, derive from PRIVATE_KEY or MNEMONIC
+  const privateKey = requireEnvSignerKey('evm', options.account, 'Either --address flag or PRIVATE_KEY / MNEMONIC environment variable is required')
+
   return getAddressFromPrivateKey(privateKey as `0x${string}`)
 }
 
 /**
- * Resolve Solana address from SOLANA_PRIVATE_KEY environment variable
+ * Resolve Solana address from SOLANA_PRIVATE_KEY or MNEMONIC environment variable
  *
+ * @param account - Optional HD account index (derived from MNEMONIC)
  * @returns Solana address (base58)
+ * @throws MissingKeyError If no key is configured in the environment
  */
-export function resolveSolanaAddress(): string {
-  const solanaPrivateKey = process.env.SOLANA_PRIVATE_KEY
-  if (!solanaPrivateKey) {
-    console.error('Error: SOLANA_PRIVATE_KEY environment variable is required')
-    console.error('       Key should be base58 encoded (Solana CLI format) or 64-byte hex.')
-    process.exit(1)
-  }
+export function resolveSolanaAddress(account?: number): string {
+  const solanaPrivateKey = requireEnvSignerKey(
+    'solana',
+    account,
+    'SOLANA_PRIVATE_KEY or MNEMONIC environment variable is required',
+    'Key should be base58 encoded (Solana CLI format) or 64-byte hex.'
+  )
 
   return getSolanaAddressFromPrivateKey(solanaPrivateKey)
 }
+
+/**
+ * Resolve Tron address from TRON_PRIVATE_KEY or MNEMONIC environment variable
+ *
+ * @param account - Optional HD account index (derived from MNEMONIC)
+ * @returns Tron address (base58, T...)
+ * @throws MissingKeyError If no key is configured in the environment
+ */
+export function resolveTronAddress(account?: number): string {
+  const tronPrivateKey = requireEnvSignerKey(
+    'tron',
+    account,
+    'TRON_PRIVATE_KEY or MNEMONIC environment variable is required',
+    'Key should be 32-byte hex (with or without 0x prefix).'
+  )
+
+  return getTronAddressFromPrivateKey(tronPrivateKey)
+}
+
+/**
+ * Resolve the signer address for a chain type from the environment, or the
+ * selected profile's sender address
+ *
+ * @param chainType - Chain type of the address to resolve
+ * @param account - Optional HD account index (derived from MNEMONIC)
+ * @returns Address in the chain type's native format
+ * @throws MissingKeyError If no key is configured in the environment
+ */
+export function resolveAddressForChainType(chainType: ChainType, account?: number): string {
+  if (chainType === 'solana') {
+    return getProfileSender(chainType, account) ?? resolveSolanaAddress(account)
+  }
+  if (chainType === 'tron') {
+    return getProfileSender(chainType, account) ?? resolveTronAddress(account)
+  }
+  return resolveAddress({ account })
+}
@@ -0,0 +1,210 @@
+/**
+ * Persistent transfer journal
+ *
+ * Records the quote and per-step transaction state of a transfer as it runs,
+ * so a transfer that fails partway can be inspected and resumed later.
+ * Journals are stored as JSON files under <app dir>/transfers/<id>.json.
+ */
+
+import { randomBytes } from 'node:crypto'
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+import { getAppDir } from './paths'
+import type { StargateQuote, TransferStepCallback } from './stargate'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JournalStepStatus = 'pending' | 'submitted' | 'confirmed' | 'failed'
+
+export type JournalStatus = 'in_progress' | 'completed' | 'failed'
+
+export interface JournalStep {
+  type: string
+  status: JournalStepStatus
+  txHash?: string // Tx hash (EVM), signature (Solana) or tx ID (Tron)
+  error?: string
+}
+
+export interface TransferJournal {
+  id: string
+  createdAt: string
+  updatedAt: string
+  status: JournalStatus
+  srcChainKey: string
+  dstChainKey: string
+  amount: string // Human-readable amount as entered
+  slippage: string
+  srcAddress: string
+  dstAddress: string
+  quote: StargateQuote
+  quotedAt: string
+  steps: JournalStep[]
+  error?: string
+}
+
+export type NewTransferJournal = Omit<
+  TransferJournal,
+  'id' | 'createdAt' | 'updatedAt' | 'status' | 'steps' | 'quotedAt'
+>
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Directory holding journal files
+ */
+export function getJournalDir(): string {
+  return join(getAppDir(), 'transfers')
+}
+
+function getJournalPath(id: string): string {
+  return join(getJournalDir(), `${id}.json`)
+}
+
+/**
+ * Persist a journal to disk, updating its timestamp
+ */
+export function saveJournal(journal: TransferJournal): void {
+  mkdirSync(getJournalDir(), { recursive: true })
+  journal.updatedAt = new Date().toISOString()
+  writeFileSync(getJournalPath(journal.id), JSON.stringify(journal, null, 2) + '\n')
+}
+
+/**
+ * Create and persist a journal for a new transfer
+ */
+export function createJournal(entry: NewTransferJournal): TransferJournal {
+  const now = new Date().toISOString()
+  const journal: TransferJournal = {
+    ...entry,
+    id: `${now.slice(0, 10).replace(/-/g, '')}-${randomBytes(3).toString('hex')}`,
+    createdAt: now,
+    updatedAt: now,
+    status: 'in_progress',
+    quotedAt: now,
+    steps: entry.quote.steps.map((step) => ({ type: step.type, status: 'pending' })),
+  }
+
+  saveJournal(journal)
+  return journal
+}
+
+/**
+ * Load a journal by ID
+ */
+export function loadJournal(id: string): TransferJournal {
+  const path = getJournalPath(id)
+  if (!existsSync(path)) {
+    throw new Error(`Transfer journal "${id}" not found in ${getJournalDir()}`)
+  }
+
+  return JSON.parse(readFileSync(path, 'utf-8')) as TransferJournal
+}
+
+/**
+ * List all journals, most recent first
+ */
+export function listJournals(): TransferJournal[] {
+  if (!existsSync(getJournalDir())) {
+    return []
+  }
+
+  return readdirSync(getJournalDir())
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => loadJournal(file.replace(/\.json$/, '')))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Find the journaled step that submitted a transaction
+ */
+export function findJournalStepByTxHash(txHash: string): { journal: TransferJournal; stepIndex: number } | undefined {
+  for (const journal of listJournals()) {
+    const stepIndex = journal.steps.findIndex((step) => step.txHash?.toLowerCase() === txHash.toLowerCase())
+    if (stepIndex !== -1) {
+      return { journal, stepIndex }
+    }
+  }
+  return undefined
+}
+
+// ============================================================================
+// Updates
+// ============================================================================
+
+/**
+ * Record a step's progress and persist the journal
+ */
+export function updateJournalStep(
+  journal: TransferJournal,
+  stepIndex: number,
+  update: Partial<JournalStep>
+): void {
+  journal.steps[stepIndex] = { ...journal.steps[stepIndex], ...update }
+  saveJournal(journal)
+}
+
+/**
+ * Replace the journal's quote after re-quoting, keeping confirmed steps
+ *
+ * Steps of the new quote whose type was already confirmed (e.g. an approve
+ * from the failed run) are carried over as confirmed so they aren't repeated.
+ */
+export function replaceJournalQuote(journal: TransferJournal, quote: StargateQuote): void {
+  const confirmed = journal.steps.filter((step) => step.status === 'confirmed')
+
+  journal.quote = quote
+  journal.quotedAt = new Date().toISOString()
+  journal.steps = quote.steps.map((step) => {
+    const index = confirmed.findIndex((done) => done.type === step.type)
+    if (index !== -1) {
+      return confirmed.splice(index, 1)[0]
+    }
+    return { type: step.type, status: 'pending' }
+  })
+
+  saveJournal(journal)
+}
+
+/**
+ * Index of the first step that has not been confirmed (steps.length if all are)
+ */
+export function getFirstIncompleteStep(journal: TransferJournal): number {
+  const index = journal.steps.findIndex((step) => step.status !== 'confirmed')
+  return index === -1 ? journal.steps.length : index
+}
+
+/**
+ * Create a step callback that records progress in the journal
+ */
+export function journalStepRecorder(journal: TransferJournal): TransferStepCallback {
+  return (stepIndex, _stepType, status, txHash) => {
+    if (status === 'pending') {
+      return
+    }
+    updateJournalStep(journal, stepIndex, { status, txHash })
+  }
+}
+
+/**
+ * Mark a journal as completed, or as failed at its first incomplete step
+ */
+export function finishJournal(journal: TransferJournal, error?: string): void {
+  if (error) {
+    const failedStep = getFirstIncompleteStep(journal)
+    if (failedStep < journal.steps.length) {
+      journal.steps[failedStep] = { ...journal.steps[failedStep], status: 'failed', error }
+    }
+    journal.status = 'failed'
+    journal.error = error
+  } else {
+    journal.status = 'completed'
+    journal.error = undefined
+  }
+
+  saveJournal(journal)
+}
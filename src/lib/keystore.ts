@@ -0,0 +1,306 @@
+/**
+ * Encrypted keystore for signing keys
+ *
+ * EVM keys are stored as Web3 Secret Storage (V3 JSON keystore) files, so they
+ * can be exchanged with geth, Foundry (`cast wallet`) and other wallets.
+ * Solana and Tron keys use the same V3 envelope around their raw secret key.
+ * Keystores live under <app dir>/keystore/<name>.json.
+ */
+
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes, randomUUID, scryptSync } from 'node:crypto'
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import bs58 from 'bs58'
+import { keccak256, toHex } from 'viem'
+
+import { getAddressFromPrivateKey } from './client'
+import { getAppDir } from './paths'
+import { getSolanaAddressFromPrivateKey, parseSolanaPrivateKey } from './solana-client'
+import { getTronAddressFromPrivateKey, parseTronPrivateKey } from './tron-client'
+import type { ChainType } from '../types/index'
+
+// scrypt parameters (geth "standard" strength)
+const SCRYPT_N = 262144
+const SCRYPT_R = 8
+const SCRYPT_P = 1
+const SCRYPT_DKLEN = 32
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ScryptParams {
+  dklen: number
+  n: number
+  r: number
+  p: number
+  salt: string
+}
+
+interface Pbkdf2Params {
+  dklen: number
+  c: number
+  prf: 'hmac-sha256'
+  salt: string
+}
+
+export interface KeystoreV3 {
+  version: 3
+  id: string
+  address: string // Lowercase hex without 0x for EVM, base58 for Solana/Tron
+  crypto: {
+    cipher: 'aes-128-ctr'
+    ciphertext: string
+    cipherparams: { iv: string }
+    kdf: 'scrypt' | 'pbkdf2'
+    kdfparams: ScryptParams | Pbkdf2Params
+    mac: string
+  }
+  // Extensions (ignored by other V3 readers)
+  name?: string
+  chainType?: ChainType
+}
+
+export interface KeystoreEntry {
+  name: string
+  chainType: ChainType
+  address: string // Display format (0x-prefixed for EVM)
+  path: string
+}
+
+// ============================================================================
+// Encryption
+// ============================================================================
+
+function deriveKey(passphrase: string, crypto: KeystoreV3['crypto']): Buffer {
+  if (crypto.kdf === 'scrypt') {
+    const params = crypto.kdfparams as ScryptParams
+    return scryptSync(passphrase, Buffer.from(params.salt, 'hex'), params.dklen, {
+      N: params.n,
+      r: params.r,
+      p: params.p,
+      maxmem: 256 * params.n * params.r,
+    })
+  }
+
+  if (crypto.kdf === 'pbkdf2') {
+    const params = crypto.kdfparams as Pbkdf2Params
+    return pbkdf2Sync(passphrase, Buffer.from(params.salt, 'hex'), params.c, params.dklen, 'sha256')
+  }
+
+  throw new Error(`Unsupported keystore KDF: ${crypto.kdf}`)
+}
+
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2)
+}
+
+/**
+ * Encrypt raw secret key bytes into a V3 keystore
+ */
+export function encryptKeystore(secret: Uint8Array, passphrase: string, address: string): KeystoreV3 {
+  const salt = randomBytes(32)
+  const iv = randomBytes(16)
+  const crypto: KeystoreV3['crypto'] = {
+    cipher: 'aes-128-ctr',
+    ciphertext: '',
+    cipherparams: { iv: iv.toString('hex') },
+    kdf: 'scrypt',
+    kdfparams: { dklen: SCRYPT_DKLEN, n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, salt: salt.toString('hex') },
+    mac: '',
+  }
+
+  const derivedKey = deriveKey(passphrase, crypto)
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv)
+  const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()])
+
+  crypto.ciphertext = ciphertext.toString('hex')
+  crypto.mac = computeMac(derivedKey, ciphertext)
+
+  return { version: 3, id: randomUUID(), address, crypto }
+}
+
+/**
+ * Decrypt a V3 keystore to raw secret key bytes
+ *
+ * @throws If the passphrase is wrong (MAC mismatch) or the format is unsupported
+ */
+export function decryptKeystore(keystore: KeystoreV3, passphrase: string): Buffer {
+  if (keystore.version !== 3) {
+    throw new Error(`Unsupported keystore version: ${keystore.version}`)
+  }
+  if (keystore.crypto.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore cipher: ${keystore.crypto.cipher}`)
+  }
+
+  const derivedKey = deriveKey(passphrase, keystore.crypto)
+  const ciphertext = Buffer.from(keystore.crypto.ciphertext, 'hex')
+
+  if (computeMac(derivedKey, ciphertext) !== keystore.crypto.mac.toLowerCase()) {
+    throw new Error('Incorrect passphrase for keystore')
+  }
+
+  const decipher = createDecipheriv(
+    'aes-128-ctr',
+    derivedKey.subarray(0, 16),
+    Buffer.from(keystore.crypto.cipherparams.iv, 'hex')
+  )
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+}
+
+// ============================================================================
+// Key Formats
+// ============================================================================
+
+/**
+ * Convert a private key string (as used in env vars) to raw bytes and address
+ */
+export function parsePrivateKeyForChainType(
+  chainType: ChainType,
+  privateKey: string
+): { secret: Uint8Array; address: string } {
+  if (chainType === 'solana') {
+    return {
+      secret: parseSolanaPrivateKey(privateKey),
+      address: getSolanaAddressFromPrivateKey(privateKey),
+    }
+  }
+
+  if (chainType === 'tron') {
+    return {
+      secret: Buffer.from(parseTronPrivateKey(privateKey), 'hex'),
+      address: getTronAddressFromPrivateKey(privateKey),
+    }
+  }
+
+  const hexKey = (privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`) as `0x${string}`
+  return {
+    secret: Buffer.from(hexKey.slice(2), 'hex'),
+    address: getAddressFromPrivateKey(hexKey).slice(2).toLowerCase(),
+  }
+}
+
+/**
+ * Convert decrypted secret bytes back to the private key string format
+ * expected by the chain's client (0x hex for EVM, base58 for Solana, hex for Tron)
+ */
+export function formatPrivateKeyForChainType(chainType: ChainType, secret: Uint8Array): string {
+  if (chainType === 'solana') {
+    return bs58.encode(secret)
+  }
+  if (chainType === 'tron') {
+    return Buffer.from(secret).toString('hex')
+  }
+  return toHex(secret)
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Directory holding keystore files
+ */
+export function getKeystoreDir(): string {
+  return join(getAppDir(), 'keystore')
+}
+
+function getKeystorePath(name: string): string {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid keystore name "${name}": use letters, numbers, ".", "-" and "_"`)
+  }
+  return join(getKeystoreDir(), `${name}.json`)
+}
+
+function toEntry(name: string, keystore: KeystoreV3, path: string): KeystoreEntry {
+  const chainType = keystore.chainType || 'evm'
+  return {
+    name,
+    chainType,
+    address: chainType === 'evm' ? `0x${keystore.address.replace(/^0x/, '')}` : keystore.address,
+    path,
+  }
+}
+
+/**
+ * Encrypt and save a private key under a name
+ */
+export function saveKeystore(
+  name: string,
+  chainType: ChainType,
+  privateKey: string,
+  passphrase: string
+): KeystoreEntry {
+  const path = getKeystorePath(name)
+  if (existsSync(path)) {
+    throw new Error(`Keystore "${name}" already exists`)
+  }
+
+  const { secret, address } = parsePrivateKeyForChainType(chainType, privateKey)
+  const keystore: KeystoreV3 = { ...encryptKeystore(secret, passphrase, address), name, chainType }
+
+  mkdirSync(getKeystoreDir(), { recursive: true, mode: 0o700 })
+  writeFileSync(path, JSON.stringify(keystore, null, 2) + '\n', { mode: 0o600 })
+
+  return toEntry(name, keystore, path)
+}
+
+/**
+ * Import an existing V3 keystore file (e.g. from geth or Foundry) under a name
+ *
+ * The passphrase is verified before the file is copied.
+ */
+export function importKeystoreFile(name: string, filePath: string, passphrase: string): KeystoreEntry {
+  const path = getKeystorePath(name)
+  if (existsSync(path)) {
+    throw new Error(`Keystore "${name}" already exists`)
+  }
+
+  const keystore = JSON.parse(readFileSync(filePath, 'utf-8')) as KeystoreV3
+  const chainType = keystore.chainType || 'evm'
+  const secret = decryptKeystore(keystore, passphrase)
+  const { address } = parsePrivateKeyForChainType(chainType, formatPrivateKeyForChainType(chainType, secret))
+
+  const imported: KeystoreV3 = { ...keystore, address, name, chainType }
+
+  mkdirSync(getKeystoreDir(), { recursive: true, mode: 0o700 })
+  writeFileSync(path, JSON.stringify(imported, null, 2) + '\n', { mode: 0o600 })
+
+  return toEntry(name, imported, path)
+}
+
+/**
+ * Load a keystore by name
+ */
+export function loadKeystore(name: string): { keystore: KeystoreV3; entry: KeystoreEntry } {
+  const path = getKeystorePath(name)
+  if (!existsSync(path)) {
+    throw new Error(`Keystore "${name}" not found in ${getKeystoreDir()}`)
+  }
+
+  const keystore = JSON.parse(readFileSync(path, 'utf-8')) as KeystoreV3
+  return { keystore, entry: toEntry(name, keystore, path) }
+}
+
+/**
+ * List all stored keystores
+ */
+export function listKeystores(): KeystoreEntry[] {
+  if (!existsSync(getKeystoreDir())) {
+    return []
+  }
+
+  return readdirSync(getKeystoreDir())
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => loadKeystore(file.replace(/\.json$/, '')).entry)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Decrypt a stored keystore to a private key string for its chain type
+ */
+export function unlockKeystore(name: string, passphrase: string): { privateKey: string; entry: KeystoreEntry } {
+  const { keystore, entry } = loadKeystore(name)
+  const secret = decryptKeystore(keystore, passphrase)
+  return { privateKey: formatPrivateKeyForChainType(entry.chainType, secret), entry }
+}
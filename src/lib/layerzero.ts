@@ -0,0 +1,183 @@
+/**
+ * LayerZero Scan API client for tracking cross-chain messages
+ *
+ * Every Stargate bridge transaction emits a LayerZero message. The scan API
+ * indexes these by source transaction hash so delivery can be tracked.
+ */
+
+import { InvalidArgumentError } from '@commander-js/extra-typings'
+
+import { DeliveryTimeoutError } from './errors'
+
+// API configuration
+const LAYERZERO_SCAN_API_BASE = 'https://scan.layerzero-api.com/v1'
+
+// Polling defaults for delivery tracking
+const DEFAULT_POLL_INTERVAL_MS = 5000
+const DEFAULT_MAX_POLL_INTERVAL_MS = 60_000
+const DEFAULT_WAIT_TIMEOUT_MS = 30 * 60 * 1000
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LayerZeroMessage {
+  pathway: {
+    srcEid: number
+    dstEid: number
+    sender: { address: string; name?: string; chain?: string }
+    receiver: { address: string; name?: string; chain?: string }
+  }
+  source: {
+    status: string
+    tx: {
+      txHash: string
+      blockTimestamp: number
+      from: string
+    }
+  }
+  destination?: {
+    status: string
+    tx?: {
+      txHash: string
+      blockTimestamp: number
+    }
+  }
+  status: {
+    name: string
+    message: string
+  }
+  guid: string
+  created: string
+  updated: string
+}
+
+interface LayerZeroResponse {
+  data: LayerZeroMessage[]
+}
+
+export interface WaitForDeliveryOptions {
+  intervalMs?: number // Initial poll interval (doubles on each unchanged poll)
+  maxIntervalMs?: number // Upper bound for the poll interval
+  timeoutMs?: number // Give up after this long
+  onStatus?: (message: LayerZeroMessage | undefined) => void // Called whenever the status changes
+}
+
+// Message states after which the status will not change without intervention
+export const TERMINAL_STATUSES = ['DELIVERED', 'FAILED', 'BLOCKED', 'PAYLOAD_STORED'] as const
+
+export type TerminalStatus = (typeof TERMINAL_STATUSES)[number]
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Fetch the LayerZero message for a source transaction
+ *
+ * @returns The message, or undefined if it has not been indexed yet
+ */
+export async function fetchLayerZeroMessage(txHash: string): Promise<LayerZeroMessage | undefined> {
+  const response = await fetch(`${LAYERZERO_SCAN_API_BASE}/messages/tx/${txHash}`)
+
+  // The API responds with 404 until the message is indexed
+  if (response.status === 404) {
+    return undefined
+  }
+
+  if (!response.ok) {
+    throw new Error(`API request failed: ${response.statusText}`)
+  }
+
+  const data = (await response.json()) as LayerZeroResponse
+  return data.data?.[0]
+}
+
+/**
+ * Check that a string looks like a source transaction hash: 32 bytes of hex
+ * (EVM with 0x, Tron without) or a base58 Solana signature
+ */
+export function isSourceTxHash(txHash: string): boolean {
+  return /^(0x)?[0-9a-fA-F]{64}$/.test(txHash) || /^[1-9A-HJ-NP-Za-km-z]{64,88}$/.test(txHash)
+}
+
+/**
+ * Check if a message status is terminal
+ */
+export function isTerminalStatus(status: string): status is TerminalStatus {
+  return (TERMINAL_STATUSES as readonly string[]).includes(status)
+}
+
+/**
+ * Poll the LayerZero Scan API until the message reaches a terminal state
+ *
+ * Uses exponential backoff between polls that don't observe a status change.
+ *
+ * @returns The message in its terminal state
+ * @throws DeliveryTimeoutError If the timeout passes first
+ */
+export async function waitForLayerZeroDelivery(
+  txHash: string,
+  options: WaitForDeliveryOptions = {}
+): Promise<LayerZeroMessage> {
+  const initialInterval = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS
+  const maxInterval = options.maxIntervalMs ?? DEFAULT_MAX_POLL_INTERVAL_MS
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS)
+
+  let interval = initialInterval
+  let lastStatus: string | undefined
+
+  for (;;) {
+    let message: LayerZeroMessage | undefined
+    try {
+      message = await fetchLayerZeroMessage(txHash)
+    } catch {
+      // Transient API errors shouldn't abort tracking; retry on the next poll
+    }
+
+    const status = message?.status.name
+    if (status !== lastStatus) {
+      options.onStatus?.(message)
+      lastStatus = status
+      interval = initialInterval
+    } else {
+      interval = Math.min(interval * 2, maxInterval)
+    }
+
+    if (message && isTerminalStatus(message.status.name)) {
+      return message
+    }
+
+    if (Date.now() + interval > deadline) {
+      throw new DeliveryTimeoutError(txHash, status)
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, interval))
+  }
+}
+
+// ============================================================================
+// Option Parsers
+// ============================================================================
+
+/**
+ * Commander option parser for --interval (seconds)
+ */
+export function parsePollInterval(value: string): number {
+  const seconds = Number(value)
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new InvalidArgumentError('Poll interval must be a positive number of seconds.')
+  }
+  return seconds
+}
+
+/**
+ * Commander option parser for --timeout (minutes)
+ */
+export function parseWatchTimeout(value: string): number {
+  const minutes = Number(value)
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new InvalidArgumentError('Timeout must be a positive number of minutes.')
+  }
+  return minutes
+}
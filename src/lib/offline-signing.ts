@@ -0,0 +1,301 @@
+/**
+ * Offline (cold) signing support
+ *
+ * Turns a Stargate quote into unsigned transactions that can be carried to an
+ * offline signer, and broadcasts the signed results in order. The same JSON
+ * file is used in both directions: `transfer --export-unsigned` writes it, the
+ * signer fills in each step's `signed` field, and `broadcast` submits it.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { type Connection, PublicKey, VersionedMessage, VersionedTransaction } from '@solana/web3.js'
+import bs58 from 'bs58'
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  parseTransaction,
+  recoverTransactionAddress,
+  serializeTransaction,
+  type TransactionSerialized,
+} from 'viem'
+
+import { TransactionRevertedError } from './errors'
+import { type FeeOptions, RECEIPT_TIMEOUT_MS, resolveFees } from './fees'
+import type { StargateQuote } from './stargate'
+import type { ChainType } from '../types/index'
+
+// Gas limit used when a step can't be estimated yet (e.g. the bridge step
+// reverts in estimation until the approve step before it is mined)
+const FALLBACK_GAS_LIMIT = 500_000n
+
+// Headroom added to estimated gas, since state can change before signing
+const GAS_BUFFER_PERCENT = 20n
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UnsignedEvmTransaction {
+  chainId: number
+  nonce: number
+  to: Address
+  data: Hex
+  value: string
+  gas: string
+  maxFeePerGas: string
+  maxPriorityFeePerGas: string
+}
+
+export interface UnsignedTransferStep {
+  type: string
+  unsigned: string // 0x-serialized EIP-1559 tx (EVM) or base64 message (Solana)
+  transaction?: UnsignedEvmTransaction // Decoded EVM fields for review
+  gasEstimated?: boolean // False when the fallback gas limit was used
+  signed?: string // Filled in by the offline signer
+  txHash?: string // Recorded by broadcast once confirmed
+}
+
+export interface UnsignedTransferFile {
+  version: 1
+  createdAt: string
+  srcChainKey: string
+  dstChainKey: string
+  chainType: ChainType
+  amount: string // Human-readable amount as entered
+  srcAddress: string
+  dstAddress: string
+  dstAmount: string
+  steps: UnsignedTransferStep[]
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Build fully populated unsigned EIP-1559 transactions for a quote's steps
+ *
+ * Nonces are assigned sequentially from the sender's pending nonce and fees
+ * come from the chain's current estimate, unless overridden.
+ */
+export async function buildUnsignedEvmSteps(
+  publicClient: PublicClient,
+  from: Address,
+  quote: StargateQuote,
+  feeOptions: FeeOptions = {}
+): Promise<UnsignedTransferStep[]> {
+  const chainId = await publicClient.getChainId()
+  const firstNonce = await publicClient.getTransactionCount({ address: from, blockTag: 'pending' })
+  const fees = await resolveFees(publicClient, feeOptions)
+  if ('gasPrice' in fees) {
+    throw new Error('Offline signing requires a chain with EIP-1559 fees')
+  }
+  const { maxFeePerGas, maxPriorityFeePerGas } = fees
+
+  const steps: UnsignedTransferStep[] = []
+  for (let i = 0; i < quote.steps.length; i++) {
+    const step = quote.steps[i]
+    const to = step.transaction.to as Address
+    const data = step.transaction.data as Hex
+    const value = step.transaction.value ? BigInt(step.transaction.value) : 0n
+
+    let gas: bigint
+    let gasEstimated = true
+    try {
+      const estimate = await publicClient.estimateGas({ account: from, to, data, value })
+      gas = feeOptions.gasLimitMultiplier
+        ? (estimate * BigInt(Math.round(feeOptions.gasLimitMultiplier * 100))) / 100n
+        : estimate + (estimate * GAS_BUFFER_PERCENT) / 100n
+    } catch (error) {
+      // Later steps may depend on earlier ones being mined first
+      if (i === 0) {
+        throw error
+      }
+      gas = FALLBACK_GAS_LIMIT
+      gasEstimated = false
+    }
+
+    const nonce = firstNonce + i
+    const unsigned = serializeTransaction({
+      type: 'eip1559',
+      chainId,
+      nonce,
+      to,
+      data,
+      value,
+      gas,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    })
+
+    steps.push({
+      type: step.type,
+      unsigned,
+      transaction: {
+        chainId,
+        nonce,
+        to,
+        data,
+        value: value.toString(),
+        gas: gas.toString(),
+        maxFeePerGas: maxFeePerGas.toString(),
+        maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      },
+      gasEstimated,
+    })
+  }
+
+  return steps
+}
+
+/**
+ * Deserialize Stargate's base64 Solana transaction data (full tx or bare message)
+ */
+function deserializeSolanaMessage(data: string): VersionedMessage {
+  const buffer = Buffer.from(data, 'base64')
+  try {
+    return VersionedTransaction.deserialize(buffer).message
+  } catch {
+    return VersionedMessage.deserialize(buffer)
+  }
+}
+
+/**
+ * Extract the base64 messages to sign from a quote's Solana steps
+ */
+export function buildUnsignedSolanaSteps(quote: StargateQuote): UnsignedTransferStep[] {
+  return quote.steps.map((step) => ({
+    type: step.type,
+    unsigned: Buffer.from(deserializeSolanaMessage(step.transaction.data).serialize()).toString('base64'),
+  }))
+}
+
+/**
+ * Write an unsigned transfer file
+ */
+export function writeUnsignedTransfer(path: string, file: UnsignedTransferFile): void {
+  writeFileSync(path, JSON.stringify(file, null, 2) + '\n')
+}
+
+/**
+ * Read an unsigned (or signed) transfer file
+ */
+export function readUnsignedTransfer(path: string): UnsignedTransferFile {
+  const file = JSON.parse(readFileSync(path, 'utf-8')) as UnsignedTransferFile
+  if (file.version !== 1 || !Array.isArray(file.steps)) {
+    throw new Error(`${path} is not a pyusd-lz transaction file`)
+  }
+  return file
+}
+
+// ============================================================================
+// Broadcast
+// ============================================================================
+
+/**
+ * Check that a signed EVM transaction matches its unsigned step and sender
+ *
+ * @throws If the signer, destination, calldata, value, nonce or chain differ
+ */
+export async function verifySignedEvmStep(step: UnsignedTransferStep, signed: Hex, from: string): Promise<void> {
+  const expected = parseTransaction(step.unsigned as Hex)
+  const actual = parseTransaction(signed)
+
+  const mismatched = (['chainId', 'nonce', 'to', 'data', 'value'] as const).filter(
+    (field) => String(expected[field] ?? '').toLowerCase() !== String(actual[field] ?? '').toLowerCase()
+  )
+  if (mismatched.length > 0) {
+    throw new Error(`Signed ${step.type} transaction differs from the exported one (${mismatched.join(', ')})`)
+  }
+
+  const signer = await recoverTransactionAddress({ serializedTransaction: signed as TransactionSerialized })
+  if (signer.toLowerCase() !== from.toLowerCase()) {
+    throw new Error(`Signed ${step.type} transaction is signed by ${signer}, expected ${from}`)
+  }
+}
+
+/**
+ * Submit a signed EVM transaction and wait for it to be mined
+ *
+ * @returns Transaction hash
+ */
+export async function broadcastEvmTransaction(
+  publicClient: PublicClient,
+  signed: Hex,
+  onSubmitted?: (hash: Hex) => void
+): Promise<Hex> {
+  const hash = await publicClient.sendRawTransaction({ serializedTransaction: signed })
+  onSubmitted?.(hash)
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS })
+  if (receipt.status === 'reverted') {
+    throw new TransactionRevertedError('evm', hash)
+  }
+
+  return hash
+}
+
+/**
+ * Assemble a signed Solana transaction from a step's message and signer output
+ *
+ * Accepts either a base64 signed transaction or a base58 signature over the
+ * exported message (attached for the sender's signer slot).
+ *
+ * @throws If the signed transaction's message differs from the exported one
+ */
+export function assembleSignedSolanaTransaction(
+  step: UnsignedTransferStep,
+  signed: string,
+  from: string
+): VersionedTransaction {
+  const message = VersionedMessage.deserialize(Buffer.from(step.unsigned, 'base64'))
+
+  let signature: Uint8Array | undefined
+  try {
+    signature = bs58.decode(signed)
+  } catch {
+    // Not base58, so a full base64 transaction
+  }
+
+  if (signature?.length === 64) {
+    const transaction = new VersionedTransaction(message)
+    transaction.addSignature(new PublicKey(from), signature)
+    return transaction
+  }
+
+  const transaction = VersionedTransaction.deserialize(Buffer.from(signed, 'base64'))
+  if (!Buffer.from(transaction.message.serialize()).equals(Buffer.from(message.serialize()))) {
+    throw new Error(`Signed ${step.type} transaction differs from the exported message`)
+  }
+  return transaction
+}
+
+/**
+ * Submit a signed Solana transaction and wait for confirmation
+ *
+ * @returns Transaction signature
+ */
+export async function broadcastSolanaTransaction(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  onSubmitted?: (signature: string) => void
+): Promise<string> {
+  const signature = await connection.sendRawTransaction(transaction.serialize(), {
+    skipPreflight: false,
+    preflightCommitment: 'confirmed',
+  })
+  onSubmitted?.(signature)
+
+  const latestBlockHash = await connection.getLatestBlockhash()
+  const result = await connection.confirmTransaction({
+    signature,
+    blockhash: latestBlockHash.blockhash,
+    lastValidBlockHeight: latestBlockHash.lastValidBlockHeight,
+  })
+  if (result.value.err) {
+    throw new Error(`Transaction ${signature} failed: ${JSON.stringify(result.value.err)}`)
+  }
+
+  return signature
+}
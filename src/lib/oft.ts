@@ -0,0 +1,274 @@
+/**
+ * Direct OFT sends, bypassing the Stargate API
+ *
+ * Calls `quoteSend` and `send` on the PYUSD OFT adapter / PYUSD0 OFT contracts
+ * directly. The result is packaged as a StargateQuote (approve + bridge steps
+ * with encoded calldata), so the regular executor, journal and resume flow
+ * work unchanged when the Stargate API is unavailable.
+ */
+
+import { addressToBytes32, Options } from '@layerzerolabs/lz-v2-utilities'
+import bs58 from 'bs58'
+import {
+  type Address,
+  encodeFunctionData,
+  erc20Abi,
+  type Hex,
+  parseAbi,
+  type PublicClient,
+  toHex,
+  type WalletClient,
+} from 'viem'
+
+import { QuoteUnavailableError } from './errors'
+import {
+  executeStargateTransfer,
+  quoteFailure,
+  type StargateQuote,
+  type StargateQuoteResult,
+  type StargateTransferResult,
+  type TransferStepCallback,
+} from './stargate'
+import type { ChainConfig } from '../types/index'
+
+// Route name reported for direct quotes
+export const DIRECT_OFT_ROUTE = 'direct/oft'
+
+const OFT_ABI = parseAbi([
+  'struct SendParam { uint32 dstEid; bytes32 to; uint256 amountLD; uint256 minAmountLD; bytes extraOptions; bytes composeMsg; bytes oftCmd; }',
+  'struct MessagingFee { uint256 nativeFee; uint256 lzTokenFee; }',
+  'struct OFTReceipt { uint256 amountSentLD; uint256 amountReceivedLD; }',
+  'struct OFTLimit { uint256 minAmountLD; uint256 maxAmountLD; }',
+  'struct OFTFeeDetail { int256 feeAmountLD; string description; }',
+  'function token() view returns (address)',
+  'function approvalRequired() view returns (bool)',
+  'function quoteOFT(SendParam _sendParam) view returns (OFTLimit, OFTFeeDetail[], OFTReceipt)',
+  'function quoteSend(SendParam _sendParam, bool _payInLzToken) view returns (MessagingFee)',
+  'function send(SendParam _sendParam, MessagingFee _fee, address _refundAddress) payable returns ((bytes32 guid, uint64 nonce, MessagingFee fee), OFTReceipt)',
+])
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SendParam {
+  dstEid: number
+  to: Hex
+  amountLD: bigint
+  minAmountLD: bigint
+  extraOptions: Hex
+  composeMsg: Hex
+  oftCmd: Hex
+}
+
+export interface DirectOftQuoteParams {
+  srcConfig: ChainConfig
+  dstConfig: ChainConfig
+  srcAddress: Address
+  dstAddress: string // Recipient in the destination chain's native format
+  amountLD: bigint
+  minAmountLD: bigint // Minimum to receive on the destination
+  lzReceiveGas?: number // Extra executor gas for lzReceive on the destination
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Get the OFT contract for a chain
+ *
+ * PYUSD0 tokens are OFTs themselves. PYUSD chains use an OFT adapter: built in
+ * for Ethereum and Arbitrum, or configured with oftAddress in
+ * config/chains.json or OFT_<CHAIN>.
+ *
+ * @throws If no OFT contract is known for the chain
+ */
+export function getOftAddress(chainConfig: ChainConfig): Address {
+  if (chainConfig.oftAddress) {
+    return chainConfig.oftAddress
+  }
+  if (chainConfig.symbol === 'PYUSD0') {
+    return chainConfig.tokenAddress
+  }
+  throw new Error(
+    `No OFT adapter configured for ${chainConfig.name}. ` +
+      `Set "oftAddress" for ${chainConfig.chainKey} in config/chains.json or OFT_${chainConfig.chainKey.toUpperCase()}.`
+  )
+}
+
+/**
+ * Get a chain's LayerZero endpoint ID
+ *
+ * @throws If the endpoint ID is unknown
+ */
+export function getEndpointId(chainConfig: ChainConfig): number {
+  if (chainConfig.eid === undefined) {
+    throw new Error(`No LayerZero endpoint ID known for ${chainConfig.name}. Set "eid" in config/chains.json.`)
+  }
+  return chainConfig.eid
+}
+
+/**
+ * Encode a recipient as bytes32 for the destination chain's address format
+ */
+export function recipientToBytes32(dstConfig: ChainConfig, address: string): Hex {
+  if (dstConfig.chainType === 'tron') {
+    // Base58check: 0x41 prefix + 20-byte address + 4-byte checksum
+    const decoded = bs58.decode(address)
+    if (decoded.length !== 25 || decoded[0] !== 0x41) {
+      throw new Error(`Invalid Tron address: ${address}`)
+    }
+    return toHex(addressToBytes32(toHex(decoded.slice(1, 21))))
+  }
+  return toHex(addressToBytes32(address))
+}
+
+/**
+ * Build executor options for the send
+ *
+ * Enforced options configured on the OFT already cover normal delivery, so
+ * only an explicit extra lzReceive gas amount is added.
+ */
+export function buildExtraOptions(lzReceiveGas?: number): Hex {
+  const options = Options.newOptions()
+  if (lzReceiveGas) {
+    options.addExecutorLzReceiveOption(lzReceiveGas, 0)
+  }
+  return options.toHex() as Hex
+}
+
+// ============================================================================
+// Quote and Execution
+// ============================================================================
+
+/**
+ * Quote a direct OFT send and package it as a StargateQuote
+ *
+ * Reads the expected received amount from `quoteOFT` and the messaging fee
+ * from `quoteSend`. An approve step is included only when the contract is an
+ * adapter and the current allowance doesn't cover the amount.
+ */
+export async function fetchDirectOftQuote(
+  publicClient: PublicClient,
+  params: DirectOftQuoteParams
+): Promise<StargateQuoteResult> {
+  const { srcConfig, dstConfig, srcAddress, dstAddress, amountLD } = params
+
+  try {
+    const oftAddress = getOftAddress(srcConfig)
+
+    const sendParam: SendParam = {
+      dstEid: getEndpointId(dstConfig),
+      to: recipientToBytes32(dstConfig, dstAddress),
+      amountLD,
+      minAmountLD: params.minAmountLD,
+      extraOptions: buildExtraOptions(params.lzReceiveGas),
+      composeMsg: '0x',
+      oftCmd: '0x',
+    }
+
+    // The OFT must be for this chain's token
+    const token = await publicClient.readContract({ address: oftAddress, abi: OFT_ABI, functionName: 'token' })
+    if (token.toLowerCase() !== srcConfig.tokenAddress.toLowerCase()) {
+      throw new Error(`OFT ${oftAddress} is for token ${token}, expected ${srcConfig.tokenAddress}`)
+    }
+
+    const [, , receipt] = await publicClient.readContract({
+      address: oftAddress,
+      abi: OFT_ABI,
+      functionName: 'quoteOFT',
+      args: [sendParam],
+    })
+
+    if (receipt.amountReceivedLD < sendParam.minAmountLD) {
+      throw new Error(`OFT would deliver ${receipt.amountReceivedLD}, below the minimum ${sendParam.minAmountLD}`)
+    }
+
+    const fee = await publicClient.readContract({
+      address: oftAddress,
+      abi: OFT_ABI,
+      functionName: 'quoteSend',
+      args: [sendParam, false],
+    })
+
+    const steps: StargateQuote['steps'] = []
+
+    const approvalRequired = await publicClient.readContract({
+      address: oftAddress,
+      abi: OFT_ABI,
+      functionName: 'approvalRequired',
+    })
+    if (approvalRequired) {
+      const allowance = await publicClient.readContract({
+        address: srcConfig.tokenAddress,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [srcAddress, oftAddress],
+      })
+      if (allowance < amountLD) {
+        steps.push({
+          type: 'approve',
+          transaction: {
+            to: srcConfig.tokenAddress,
+            data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [oftAddress, amountLD] }),
+          },
+        })
+      }
+    }
+
+    steps.push({
+      type: 'bridge',
+      transaction: {
+        to: oftAddress,
+        data: encodeFunctionData({
+          abi: OFT_ABI,
+          functionName: 'send',
+          args: [sendParam, { nativeFee: fee.nativeFee, lzTokenFee: 0n }, srcAddress],
+        }),
+        value: fee.nativeFee.toString(),
+      },
+    })
+
+    const quote: StargateQuote = {
+      route: DIRECT_OFT_ROUTE,
+      srcAmount: receipt.amountSentLD.toString(),
+      dstAmount: receipt.amountReceivedLD.toString(),
+      steps,
+    }
+
+    return {
+      success: true,
+      quotes: [quote],
+      bestQuote: quote,
+      srcAmount: quote.srcAmount,
+      dstAmount: quote.dstAmount,
+      stepCount: steps.length,
+    }
+  } catch (error) {
+    return quoteFailure(new QuoteUnavailableError(error instanceof Error ? error.message.split('\n')[0] : 'Unknown error', {
+      reason: 'contract-error',
+      srcChainKey: srcConfig.chainKey,
+      dstChainKey: dstConfig.chainKey,
+    }))
+  }
+}
+
+/**
+ * Quote and execute a direct OFT send from an EVM chain
+ *
+ * @returns The same result shape as executeStargateTransfer
+ */
+export async function executeDirectOftTransfer(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  params: DirectOftQuoteParams,
+  onStep?: TransferStepCallback
+): Promise<StargateTransferResult> {
+  const quoteResult = await fetchDirectOftQuote(publicClient, params)
+  if (!quoteResult.success || !quoteResult.bestQuote) {
+    return { success: false, txHashes: [], error: quoteResult.error }
+  }
+
+  return executeStargateTransfer(walletClient, publicClient, quoteResult.bestQuote, onStep)
+}
@@ -0,0 +1,11 @@
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+
+/**
+ * Get the directory where the CLI stores local state (journals, keys, etc.)
+ *
+ * Defaults to ~/.config/pyusd-lz and can be overridden with PYUSD_LZ_HOME.
+ */
+export function getAppDir(): string {
+  return process.env.PYUSD_LZ_HOME || join(homedir(), '.config', 'pyusd-lz')
+}
@@ -0,0 +1,62 @@
+/**
+ * Interactive terminal prompts
+ */
+
+import { createInterface } from 'node:readline'
+import { Writable } from 'node:stream'
+
+/**
+ * Prompt for a line of input
+ *
+ * @param question - Prompt text
+ * @param hidden - If true, input is not echoed (for passphrases and keys)
+ */
+export async function prompt(question: string, hidden = false): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error(`Cannot prompt for input: stdin is not a terminal (${question.trim()})`)
+  }
+
+  // Muted output stream swallows the echoed characters for hidden input
+  let muted = false
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) {
+        process.stderr.write(chunk, encoding)
+      }
+      callback()
+    },
+  })
+
+  const rl = createInterface({ input: process.stdin, output, terminal: true })
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close()
+      if (hidden) {
+        process.stderr.write('\n')
+      }
+      resolve(answer)
+    })
+    muted = hidden
+  })
+}
+
+/**
+ * Prompt for a passphrase without echoing it
+ *
+ * PYUSD_LZ_PASSPHRASE can be set for non-interactive use.
+ */
+export async function promptPassphrase(question = 'Passphrase: '): Promise<string> {
+  if (process.env.PYUSD_LZ_PASSPHRASE) {
+    return process.env.PYUSD_LZ_PASSPHRASE
+  }
+  return prompt(question, true)
+}
+
+/**
+ * Ask a yes/no question (anything but "y" or "yes" is no)
+ */
+export async function confirm(question: string): Promise<boolean> {
+  const answer = await prompt(`${question} [y/N] `)
+  return /^y(es)?$/i.test(answer.trim())
+}
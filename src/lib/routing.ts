@@ -0,0 +1,216 @@
+/**
+ * Route planning for transfers that cross between the PYUSD and PYUSD0 meshes
+ *
+ * Stargate routes PYUSD chains (Ethereum, Solana, ...) and PYUSD0 chains
+ * (Avalanche, Ink, ...) separately. Only the hub chain (Arbitrum) connects
+ * both, so a transfer like Ethereum → Avalanche has to be split into
+ * Ethereum → Arbitrum and Arbitrum → Avalanche.
+ */
+
+import { type ChainRegistry, getChainConfig } from './chains'
+import { createPublicClientForChain, createWalletClientForChain } from './client'
+import { rankQuotesByNetUsd } from './costs'
+import type { QuoteUnavailableError } from './errors'
+import { createSolanaConnection, createSolanaKeypair } from './solana-client'
+import {
+  calculateMinAmount,
+  executeSolanaStargateTransfer,
+  executeStargateTransfer,
+  executeTronStargateTransfer,
+  type ExecuteTransferOptions,
+  fetchStargateQuote,
+  type StargateQuote,
+  type TransferStepCallback,
+} from './stargate'
+import { createTronWeb } from './tron-client'
+import type { ChainConfig } from '../types/index'
+
+// Chain that bridges between the PYUSD and PYUSD0 meshes
+export const HUB_CHAIN_KEY = 'arbitrum'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RouteLeg {
+  srcConfig: ChainConfig
+  dstConfig: ChainConfig
+}
+
+export interface RoutePlan {
+  legs: RouteLeg[]
+  isMultiHop: boolean
+}
+
+export interface RouteQuoteParams {
+  srcAddress: string // Sender on the source chain
+  dstAddress: string // Recipient on the destination chain
+  intermediateAddress: string // Owner of the funds on the hub chain between legs
+  srcAmount: bigint // Amount in token base units
+  slippagePercent: number
+}
+
+export interface RouteLegQuote extends RouteLeg {
+  quote: StargateQuote
+  srcAddress: string
+  dstAddress: string
+  amountLD: bigint // Amount the leg was quoted for
+  minAmountLD: bigint
+}
+
+export interface RouteLegResult {
+  success: boolean
+  txHashes: string[] // Tx hashes (EVM), signatures (Solana) or tx IDs (Tron)
+  finalTxHash?: string // The bridge transaction for LayerZero tracking
+  error?: string
+}
+
+export interface RouteQuoteResult {
+  success: boolean
+  legs: RouteLegQuote[]
+  error?: string
+  failure?: QuoteUnavailableError
+  failedLeg?: number // Index of the leg that couldn't be quoted
+  srcAmount?: string
+  dstAmount?: string
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Plan the legs needed to move funds from source to destination
+ *
+ * Transfers within a mesh, or to/from the hub, are a single leg. Transfers
+ * across meshes are routed through the hub chain.
+ */
+export function planRoute(srcConfig: ChainConfig, dstConfig: ChainConfig, registry?: ChainRegistry): RoutePlan {
+  const crossesMesh = srcConfig.symbol !== dstConfig.symbol
+  const touchesHub = srcConfig.chainKey === HUB_CHAIN_KEY || dstConfig.chainKey === HUB_CHAIN_KEY
+
+  if (!crossesMesh || touchesHub) {
+    return { legs: [{ srcConfig, dstConfig }], isMultiHop: false }
+  }
+
+  const hubConfig = getChainConfig(HUB_CHAIN_KEY, registry)
+
+  return {
+    legs: [
+      { srcConfig, dstConfig: hubConfig },
+      { srcConfig: hubConfig, dstConfig },
+    ],
+    isMultiHop: true,
+  }
+}
+
+/**
+ * Quote a single leg of a route, using the best ranked quote
+ */
+export async function fetchRouteLegQuote(
+  leg: RouteLeg,
+  srcAddress: string,
+  dstAddress: string,
+  srcAmount: bigint,
+  slippagePercent: number
+): Promise<{ quote?: RouteLegQuote; error?: string; failure?: QuoteUnavailableError }> {
+  const minAmountLD = BigInt(calculateMinAmount(srcAmount.toString(), slippagePercent))
+  const result = await rankQuotesByNetUsd(leg.srcConfig, await fetchStargateQuote({
+    srcToken: leg.srcConfig.tokenAddress,
+    dstToken: leg.dstConfig.tokenAddress,
+    srcAddress,
+    dstAddress,
+    srcChainKey: leg.srcConfig.chainKey,
+    dstChainKey: leg.dstConfig.chainKey,
+    srcAmount: srcAmount.toString(),
+    dstAmountMin: minAmountLD.toString(),
+  }))
+
+  if (!result.success || !result.bestQuote) {
+    return { error: result.error || 'No routes available', failure: result.failure }
+  }
+
+  return {
+    quote: { ...leg, quote: result.bestQuote, srcAddress, dstAddress, amountLD: srcAmount, minAmountLD },
+  }
+}
+
+/**
+ * Quote every leg of a route plan up front
+ *
+ * Each leg after the first is quoted for the amount the previous leg is
+ * expected to deliver, so the final dstAmount reflects fees on every hop.
+ */
+export async function fetchRouteQuote(
+  plan: RoutePlan,
+  params: RouteQuoteParams
+): Promise<RouteQuoteResult> {
+  const legs: RouteLegQuote[] = []
+  let amount = params.srcAmount
+
+  for (let i = 0; i < plan.legs.length; i++) {
+    const isFirst = i === 0
+    const isLast = i === plan.legs.length - 1
+
+    const { quote, error, failure } = await fetchRouteLegQuote(
+      plan.legs[i],
+      isFirst ? params.srcAddress : params.intermediateAddress,
+      isLast ? params.dstAddress : params.intermediateAddress,
+      amount,
+      params.slippagePercent
+    )
+
+    if (!quote) {
+      return { success: false, legs, error, failure, failedLeg: i }
+    }
+
+    legs.push(quote)
+    amount = BigInt(quote.quote.dstAmount)
+  }
+
+  return {
+    success: true,
+    legs,
+    srcAmount: legs[0].quote.srcAmount,
+    dstAmount: legs[legs.length - 1].quote.dstAmount,
+  }
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Execute one quoted leg of a route with the signer for its source chain
+ */
+export async function executeRouteLeg(
+  leg: RouteLegQuote,
+  privateKey: string,
+  onStep: TransferStepCallback,
+  options: ExecuteTransferOptions = {}
+): Promise<RouteLegResult> {
+  if (leg.srcConfig.chainType === 'solana') {
+    const result = await executeSolanaStargateTransfer(
+      createSolanaConnection(leg.srcConfig.rpcUrl),
+      createSolanaKeypair(privateKey),
+      leg.quote,
+      onStep,
+      { startStep: options.startStep }
+    )
+    return { success: result.success, txHashes: result.signatures, finalTxHash: result.finalSignature, error: result.error }
+  }
+
+  if (leg.srcConfig.chainType === 'tron') {
+    const result = await executeTronStargateTransfer(createTronWeb(leg.srcConfig.rpcUrl, privateKey), leg.quote, onStep, { startStep: options.startStep })
+    return { success: result.success, txHashes: result.txIds, finalTxHash: result.finalTxId, error: result.error }
+  }
+
+  const result = await executeStargateTransfer(
+    createWalletClientForChain(leg.srcConfig, privateKey as `0x${string}`),
+    createPublicClientForChain(leg.srcConfig),
+    leg.quote,
+    onStep,
+    options
+  )
+  return { success: result.success, txHashes: result.txHashes, finalTxHash: result.finalTxHash, error: result.error }
+}
@@ -0,0 +1,170 @@
+/**
+ * Safe multisig support
+ *
+ * Builds Safe Transaction Builder batch files from a Stargate quote so a
+ * transfer can be sent from a Safe instead of an EOA. Several steps (approve +
+ * bridge) are also encoded as a single MultiSendCallOnly call for proposals
+ * made through the Safe API or CLI instead of the Transaction Builder app.
+ */
+
+import {
+  type Address,
+  concatHex,
+  encodeFunctionData,
+  encodePacked,
+  type Hex,
+  parseAbi,
+  type PublicClient,
+  size,
+} from 'viem'
+
+import type { StargateQuote } from './stargate'
+
+// MultiSendCallOnly v1.3.0 (canonical deployment, same address on every chain)
+export const MULTI_SEND_CALL_ONLY_ADDRESS: Address = '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D'
+
+const SAFE_ABI = parseAbi([
+  'function getThreshold() view returns (uint256)',
+  'function getOwners() view returns (address[])',
+  'function nonce() view returns (uint256)',
+])
+
+const MULTI_SEND_ABI = parseAbi(['function multiSend(bytes transactions) payable'])
+
+// Safe operation types
+const OPERATION_CALL = 0
+const OPERATION_DELEGATECALL = 1
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SafeBatchTransaction {
+  to: Address
+  value: string
+  data: Hex
+  contractMethod: null
+  contractInputsValues: null
+}
+
+// Safe Transaction Builder batch file format
+export interface SafeTransactionBatch {
+  version: '1.0'
+  chainId: string
+  createdAt: number
+  meta: {
+    name: string
+    description: string
+    txBuilderVersion: string
+    createdFromSafeAddress: Address
+    createdFromOwnerAddress: string
+  }
+  transactions: SafeBatchTransaction[]
+}
+
+export interface SafeInfo {
+  address: Address
+  threshold: bigint
+  owners: readonly Address[]
+  nonce: bigint
+}
+
+export interface MultiSendTransaction {
+  to: Address
+  value: bigint
+  data: Hex
+  operation: typeof OPERATION_DELEGATECALL
+}
+
+// ============================================================================
+// Safe State
+// ============================================================================
+
+/**
+ * Read a Safe's owners, threshold and nonce
+ *
+ * @throws If the address has no code or doesn't respond like a Safe
+ */
+export async function getSafeInfo(publicClient: PublicClient, address: Address): Promise<SafeInfo> {
+  const code = await publicClient.getCode({ address })
+  if (!code || code === '0x') {
+    throw new Error(`${address} is not a contract on this chain (is the Safe deployed here?)`)
+  }
+
+  try {
+    const [threshold, owners, nonce] = await Promise.all([
+      publicClient.readContract({ address, abi: SAFE_ABI, functionName: 'getThreshold' }),
+      publicClient.readContract({ address, abi: SAFE_ABI, functionName: 'getOwners' }),
+      publicClient.readContract({ address, abi: SAFE_ABI, functionName: 'nonce' }),
+    ])
+    return { address, threshold, owners, nonce }
+  } catch {
+    throw new Error(`${address} does not look like a Safe (getThreshold/getOwners failed)`)
+  }
+}
+
+// ============================================================================
+// Batch Encoding
+// ============================================================================
+
+/**
+ * Build a Safe Transaction Builder batch from a quote's steps
+ */
+export function buildSafeTransactionBatch(params: {
+  chainId: number
+  safeAddress: Address
+  quote: StargateQuote
+  name: string
+  description: string
+}): SafeTransactionBatch {
+  return {
+    version: '1.0',
+    chainId: params.chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: params.name,
+      description: params.description,
+      txBuilderVersion: '1.16.5',
+      createdFromSafeAddress: params.safeAddress,
+      createdFromOwnerAddress: '',
+    },
+    transactions: params.quote.steps.map((step) => ({
+      to: step.transaction.to as Address,
+      value: step.transaction.value || '0',
+      data: step.transaction.data as Hex,
+      contractMethod: null,
+      contractInputsValues: null,
+    })),
+  }
+}
+
+/**
+ * Encode a quote's steps as one MultiSendCallOnly delegatecall for the Safe
+ *
+ * Each call is packed as operation (uint8), to (address), value (uint256),
+ * data length (uint256) and data, per the MultiSend contract.
+ */
+export function encodeMultiSend(quote: StargateQuote): MultiSendTransaction {
+  const packed = concatHex(
+    quote.steps.map((step) => {
+      const data = step.transaction.data as Hex
+      return encodePacked(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [
+          OPERATION_CALL,
+          step.transaction.to as Address,
+          step.transaction.value ? BigInt(step.transaction.value) : 0n,
+          BigInt(size(data)),
+          data,
+        ]
+      )
+    })
+  )
+
+  return {
+    to: MULTI_SEND_CALL_ONLY_ADDRESS,
+    value: 0n,
+    data: encodeFunctionData({ abi: MULTI_SEND_ABI, functionName: 'multiSend', args: [packed] }),
+    operation: OPERATION_DELEGATECALL,
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Signing key resolution
+ *
+ * Keys come from an encrypted keystore (selected with --keystore) when one
+ * matches the chain type, then from the MNEMONIC when --account is given,
+ * then from the plaintext private key environment variable, and finally from
+ * account 0 of the MNEMONIC.
+ */
+
+import { InvalidArgumentError } from '@commander-js/extra-typings'
+
+import { getAddressFromPrivateKey } from './client'
+import { derivePrivateKey } from './hd-wallet'
+import { loadKeystore, unlockKeystore } from './keystore'
+import { getSolanaAddressFromPrivateKey } from './solana-client'
+import { getTronAddressFromPrivateKey } from './tron-client'
+import { promptPassphrase } from './prompt'
+import type { ChainType } from '../types/index'
+
+/**
+ * Signer environment variable for each chain type
+ */
+export const SIGNER_ENV_VARS: Record<ChainType, string> = {
+  evm: 'PRIVATE_KEY',
+  solana: 'SOLANA_PRIVATE_KEY',
+  tron: 'TRON_PRIVATE_KEY',
+}
+
+/**
+ * Environment variable holding the BIP39 mnemonic for HD accounts
+ */
+export const MNEMONIC_ENV_VAR = 'MNEMONIC'
+
+/**
+ * Find the keystore to use for a chain type among the selected names
+ */
+function findKeystore(chainType: ChainType, keystoreNames: string[]): string | undefined {
+  return keystoreNames.find((name) => loadKeystore(name).entry.chainType === chainType)
+}
+
+/**
+ * Describe where a signer for the chain type can come from (for error messages)
+ */
+export function describeSignerSource(chainType: ChainType): string {
+  return `${SIGNER_ENV_VARS[chainType]} or ${MNEMONIC_ENV_VAR} environment variable, or --keystore <name> (${chainType} key)`
+}
+
+/**
+ * Resolve a private key from the environment (no keystore)
+ *
+ * With an account index the key is always derived from MNEMONIC; otherwise the
+ * chain's private key variable wins, falling back to MNEMONIC account 0.
+ *
+ * @throws If an account index is given but MNEMONIC is not set
+ */
+export function resolveEnvSignerKey(chainType: ChainType, account?: number): string | undefined {
+  const mnemonic = process.env[MNEMONIC_ENV_VAR]
+
+  if (account !== undefined) {
+    if (!mnemonic) {
+      throw new Error(`--account requires the ${MNEMONIC_ENV_VAR} environment variable`)
+    }
+    return derivePrivateKey(mnemonic, chainType, account)
+  }
+
+  const privateKey = process.env[SIGNER_ENV_VARS[chainType]]
+  if (privateKey) {
+    return privateKey
+  }
+
+  return mnemonic ? derivePrivateKey(mnemonic, chainType, 0) : undefined
+}
+
+/**
+ * Load the private key for a chain type, prompting for the keystore passphrase
+ *
+ * @returns The private key, or undefined if no signer is configured
+ */
+export async function loadSignerKey(
+  chainType: ChainType,
+  keystoreNames: string[] = [],
+  account?: number
+): Promise<string | undefined> {
+  const name = findKeystore(chainType, keystoreNames)
+  if (name) {
+    const passphrase = await promptPassphrase(`Passphrase for keystore "${name}": `)
+    return unlockKeystore(name, passphrase).privateKey
+  }
+
+  return resolveEnvSignerKey(chainType, account)
+}
+
+/**
+ * Derive the address for a private key in its chain type's native format
+ */
+export function deriveSignerAddress(chainType: ChainType, privateKey: string): string {
+  if (chainType === 'solana') {
+    return getSolanaAddressFromPrivateKey(privateKey)
+  }
+  if (chainType === 'tron') {
+    return getTronAddressFromPrivateKey(privateKey)
+  }
+  return getAddressFromPrivateKey(privateKey as `0x${string}`)
+}
+
+/**
+ * Commander option parser that collects repeated --keystore flags
+ */
+export function collectKeystoreNames(value: string, previous: string[]): string[] {
+  return [...previous, value]
+}
+
+/**
+ * Commander option parser for --account <index>
+ */
+export function parseAccountIndex(value: string): number {
+  const index = Number(value)
+  if (!Number.isInteger(index) || index < 0 || index >= 2 ** 31) {
+    throw new InvalidArgumentError('Account index must be a non-negative integer.')
+  }
+  return index
+}
@@ -0,0 +1,230 @@
+/**
+ * On-chain simulation of quote steps
+ *
+ * Runs every step of a quote against the source chain without sending
+ * anything. On EVM chains the steps are simulated in order, so the bridge
+ * step sees the state left by the approve step before it. Solana steps are
+ * run through `simulateTransaction`.
+ */
+
+import type { Connection } from '@solana/web3.js'
+import {
+  type Address,
+  BaseError,
+  decodeEventLog,
+  encodeAbiParameters,
+  erc20Abi,
+  type Hex,
+  keccak256,
+  type Log,
+  numberToHex,
+  type PublicClient,
+  type StateOverride,
+} from 'viem'
+
+import { decodeApproveStep } from './allowances'
+import { deserializeSolanaTransaction } from './solana-client'
+import type { StargateQuote, StargateStep } from './stargate'
+
+// Storage slots searched for an ERC-20 allowances mapping
+const MAX_ALLOWANCE_SLOT = 64
+
+// ERC-7201 namespace of OpenZeppelin v5 upgradeable ERC20 (allowances are at +1)
+const OZ_ERC20_STORAGE = 0x52c63247e1f47db19d5ce0460030c497f067ca4cebf71ba98eeadabe20bace00n
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StepSimulation {
+  type: string
+  success: boolean
+  error?: string // Revert reason or Solana error
+  gasUsed?: bigint // EVM
+  computeUnits?: number // Solana
+  logs: string[] // Decoded events (EVM) or program logs (Solana)
+  note?: string
+}
+
+export interface QuoteSimulation {
+  method: 'eth_simulateV1' | 'eth_call' | 'simulateTransaction'
+  steps: StepSimulation[]
+  success: boolean
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Short description of a simulation failure, including the revert reason
+ */
+function describeError(error: unknown): string {
+  if (error instanceof BaseError) {
+    return error.shortMessage
+  }
+  return error instanceof Error ? error.message.split('\n')[0] : String(error)
+}
+
+function toCall(step: StargateStep) {
+  return {
+    to: step.transaction.to as Address,
+    data: step.transaction.data as Hex,
+    value: step.transaction.value ? BigInt(step.transaction.value) : 0n,
+  }
+}
+
+/**
+ * Describe an EVM log, decoding ERC-20 Transfer and Approval events
+ */
+function formatEvmLog(log: Pick<Log, 'address' | 'data' | 'topics'>): string {
+  try {
+    const event = decodeEventLog({ abi: erc20Abi, data: log.data, topics: log.topics })
+    const args = Object.entries(event.args).map(([key, value]) => `${key}=${value}`)
+    return `${log.address} ${event.eventName}(${args.join(', ')})`
+  } catch {
+    return `${log.address} event ${log.topics[0] ?? '(anonymous)'}`
+  }
+}
+
+/**
+ * Find the storage override that gives `spender` an allowance from `owner`
+ *
+ * Tries the Solidity and Vyper mapping layouts for the first storage slots
+ * and the OpenZeppelin v5 namespaced layout, checking each candidate with
+ * an `allowance` call.
+ *
+ * @returns Undefined if the allowances mapping couldn't be located
+ */
+async function findAllowanceOverride(
+  publicClient: PublicClient,
+  token: Address,
+  owner: Address,
+  spender: Address,
+  amount: bigint
+): Promise<StateOverride[number] | undefined> {
+  const slots = [...Array.from({ length: MAX_ALLOWANCE_SLOT }, (_, i) => BigInt(i)), OZ_ERC20_STORAGE + 1n]
+  const value = numberToHex(amount, { size: 32 })
+
+  for (const slot of slots) {
+    const candidates = [
+      keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'bytes32' }], [
+        spender,
+        keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [owner, slot])),
+      ])),
+      keccak256(encodeAbiParameters([{ type: 'bytes32' }, { type: 'address' }], [
+        keccak256(encodeAbiParameters([{ type: 'uint256' }, { type: 'address' }], [slot, owner])),
+        spender,
+      ])),
+    ]
+
+    for (const candidate of candidates) {
+      const override = { address: token, stateDiff: [{ slot: candidate, value }] }
+      try {
+        const allowance = await publicClient.readContract({
+          address: token,
+          abi: erc20Abi,
+          functionName: 'allowance',
+          args: [owner, spender],
+          stateOverride: [override],
+        })
+        if (allowance === amount) {
+          return override
+        }
+      } catch {
+        // RPC doesn't support state overrides
+        return undefined
+      }
+    }
+  }
+
+  return undefined
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Simulate a quote's steps in order on an EVM chain
+ *
+ * Uses `eth_simulateV1` so each step runs on the state left by the previous
+ * one. On RPCs without it, steps are run with `eth_estimateGas` and the
+ * approve step's effect is applied to later steps as a storage override.
+ */
+export async function simulateEvmSteps(
+  publicClient: PublicClient,
+  quote: StargateQuote,
+  from: Address
+): Promise<QuoteSimulation> {
+  try {
+    const { results } = await publicClient.simulateCalls({ account: from, calls: quote.steps.map(toCall) })
+    const steps = results.map((result, i): StepSimulation => ({
+      type: quote.steps[i].type,
+      success: result.status === 'success',
+      error: result.status === 'failure' ? describeError(result.error) : undefined,
+      gasUsed: result.gasUsed,
+      logs: (result.logs ?? []).map(formatEvmLog),
+    }))
+    return { method: 'eth_simulateV1', steps, success: steps.every((step) => step.success) }
+  } catch {
+    // Fall back to per-step estimation below
+  }
+
+  const steps: StepSimulation[] = []
+  const stateOverride: StateOverride = []
+
+  for (const step of quote.steps) {
+    const simulation: StepSimulation = { type: step.type, success: false, logs: [] }
+    try {
+      simulation.gasUsed = await publicClient.estimateGas({ account: from, ...toCall(step), stateOverride })
+      simulation.success = true
+    } catch (error) {
+      simulation.error = describeError(error)
+    }
+
+    const approve = decodeApproveStep(step)
+    if (approve && step.transaction.to) {
+      const override = await findAllowanceOverride(publicClient, step.transaction.to, from, approve.spender, approve.amount)
+      if (override) {
+        stateOverride.push(override)
+      } else {
+        simulation.note = 'later steps are simulated without this approval (allowance storage not found)'
+      }
+    }
+
+    steps.push(simulation)
+  }
+
+  return { method: 'eth_call', steps, success: steps.every((step) => step.success) }
+}
+
+/**
+ * Simulate a quote's steps on Solana
+ *
+ * Each transaction is simulated independently with a fresh blockhash and
+ * without signature verification.
+ */
+export async function simulateSolanaSteps(connection: Connection, quote: StargateQuote): Promise<QuoteSimulation> {
+  const steps: StepSimulation[] = []
+
+  for (const step of quote.steps) {
+    const transaction = deserializeSolanaTransaction(step.transaction.data)
+    const { value } = await connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    })
+
+    const logs = value.logs ?? []
+    const errorLog = [...logs].reverse().find((line) => /error/i.test(line))
+    steps.push({
+      type: step.type,
+      success: value.err === null,
+      error: value.err === null ? undefined : [JSON.stringify(value.err), errorLog].filter(Boolean).join(': '),
+      computeUnits: value.unitsConsumed,
+      logs,
+    })
+  }
+
+  return { method: 'simulateTransaction', steps, success: steps.every((step) => step.success) }
+}
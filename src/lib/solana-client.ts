@@ -77,31 +77,37 @@ export function createSolanaConnection(rpcUrl?: string): Connection {
 }
 
 /**
- * Execute a Stargate transaction on Solana
+ * Deserialize base64 Stargate transaction data
  *
- * The Stargate API returns transactions as base64-encoded data.
- * This can be either a full VersionedTransaction or just the message.
- * We deserialize, sign, and submit them.
+ * The data can be either a full VersionedTransaction or just the message.
  */
-export async function executeSolanaTransaction(
-  connection: Connection,
-  keypair: Keypair,
-  transactionData: string // base64 encoded
-): Promise<string> {
-  // Deserialize the transaction data
+export function deserializeSolanaTransaction(transactionData: string): VersionedTransaction {
   const transactionBuffer = Buffer.from(transactionData, 'base64')
 
-  let transaction: VersionedTransaction
-
   // Try to deserialize as a full VersionedTransaction first
   // If that fails, try as a VersionedMessage
   try {
-    transaction = VersionedTransaction.deserialize(transactionBuffer)
+    return VersionedTransaction.deserialize(transactionBuffer)
   } catch {
     // Fallback: deserialize as a VersionedMessage and create transaction
-    const message = VersionedMessage.deserialize(transactionBuffer)
-    transaction = new VersionedTransaction(message)
+    return new VersionedTransaction(VersionedMessage.deserialize(transactionBuffer))
   }
+}
+
+/**
+ * Execute a Stargate transaction on Solana
+ *
+ * The Stargate API returns transactions as base64-encoded data.
+ * This can be either a full VersionedTransaction or just the message.
+ * We deserialize, sign, and submit them.
+ */
+export async function executeSolanaTransaction(
+  connection: Connection,
+  keypair: Keypair,
+  transactionData: string, // base64 encoded
+  onSubmitted?: (signature: string) => void
+): Promise<string> {
+  const transaction = deserializeSolanaTransaction(transactionData)
 
   // Get the message to understand the signers
   const message = transaction.message
@@ -137,6 +143,7 @@ export async function executeSolanaTransaction(
     skipPreflight: false,
     preflightCommitment: 'confirmed',
   })
+  onSubmitted?.(signature)
 
   // Wait for confirmation
   const latestBlockHash = await connection.getLatestBlockhash()
@@ -7,9 +7,14 @@
  */
 
 import type { Connection, Keypair } from '@solana/web3.js'
-import type { Address, Hex, PublicClient, WalletClient } from 'viem'
+import type { TronWeb } from 'tronweb'
+import { type Address, formatUnits, type Hex, type PublicClient, type WalletClient } from 'viem'
 
+import { QuoteUnavailableError } from './errors'
+import { type AutoBumpPolicy, type FeeOptions, sendWithFees } from './fees'
 import { executeSolanaTransaction } from './solana-client'
+import { executeTronTransaction } from './tron-client'
+import { PYUSD_DECIMALS } from '../utils/format'
 
 // API configuration
 const STARGATE_API_BASE = 'https://stargate.finance/api/v1'
@@ -69,11 +74,19 @@ export interface StargateQuoteResult {
   success: boolean
   quotes: StargateQuote[]
   error?: string
+  failure?: QuoteUnavailableError // Why no quote is available, with structured context
   // Convenience accessors for the best quote
   bestQuote?: StargateQuote
   srcAmount?: string
   dstAmount?: string
   stepCount?: number
+  nativeUsdPrice?: number // Set when the quotes are ranked by net USD value
+}
+
+// USD price of the source chain's native currency, for ranking quotes by net value
+export interface NativeUsdPrice {
+  usd: number
+  decimals: number // Native currency decimals
 }
 
 export interface StargateTransferResult {
@@ -90,16 +103,50 @@ export interface SolanaTransferResult {
   finalSignature?: string // The bridge transaction signature for LayerZero tracking
 }
 
+export interface TronTransferResult {
+  success: boolean
+  txIds: string[]
+  error?: string
+  finalTxId?: string // The bridge transaction ID for LayerZero tracking
+}
+
+export type TransferStepStatus = 'pending' | 'submitted' | 'confirmed'
+
+// Progress callback: 'submitted' carries the tx hash/signature before confirmation
+export type TransferStepCallback = (
+  stepIndex: number,
+  stepType: string,
+  status: TransferStepStatus,
+  txHash?: string
+) => void
+
+export interface ExecuteTransferOptions {
+  startStep?: number // Skip steps before this index (used when resuming)
+  fees?: FeeOptions // EVM fee overrides
+  autoBump?: AutoBumpPolicy // EVM: re-broadcast stuck transactions with higher fees
+}
+
 // ============================================================================
 // Quote Functions
 // ============================================================================
 
+/**
+ * Build the result of a failed quote
+ */
+export function quoteFailure(failure: QuoteUnavailableError): StargateQuoteResult {
+  return { success: false, quotes: [], error: failure.message, failure }
+}
+
 /**
  * Fetch quotes from the Stargate API for a cross-chain transfer
+ *
+ * Failures are returned, not thrown: `failure` says whether the API errored,
+ * couldn't be reached, or had no usable route.
  */
 export async function fetchStargateQuote(
   params: StargateQuoteParams
 ): Promise<StargateQuoteResult> {
+  const pair = { srcChainKey: params.srcChainKey, dstChainKey: params.dstChainKey }
   const url = new URL(STARGATE_QUOTES_URL)
 
   // Add all parameters to URL
@@ -128,21 +175,13 @@ export async function fetchStargateQuote(
         // Use status code error
       }
 
-      return {
-        success: false,
-        quotes: [],
-        error: errorMessage,
-      }
+      return quoteFailure(new QuoteUnavailableError(errorMessage, { reason: 'api-error', status: response.status, ...pair }))
     }
 
     const data = (await response.json()) as StargateQuoteResponse
 
     if (!data.quotes || data.quotes.length === 0) {
-      return {
-        success: false,
-        quotes: [],
-        error: data.error?.message || 'No routes available',
-      }
+      return quoteFailure(new QuoteUnavailableError(data.error?.message || 'No routes available', { reason: 'no-routes', ...pair }))
     }
 
     // Filter out quotes that have errors or missing required fields
@@ -153,30 +192,108 @@ export async function fetchStargateQuote(
     if (validQuotes.length === 0) {
       // Extract error message from first failed quote if available
       const firstError = data.quotes.find((q) => q.error)?.error?.message
-      return {
-        success: false,
-        quotes: [],
-        error: firstError || 'No valid routes available',
-      }
+      return quoteFailure(new QuoteUnavailableError(firstError || 'No valid routes available', { reason: 'invalid-routes', ...pair }))
     }
 
-    const bestQuote = validQuotes[0]
+    // Order by amount received rather than trusting the API's order
+    const sortedQuotes = sortQuotesByReceived(validQuotes)
+    const bestQuote = sortedQuotes[0]
 
     return {
       success: true,
-      quotes: validQuotes,
+      quotes: sortedQuotes,
       bestQuote,
       srcAmount: bestQuote.srcAmount,
       dstAmount: bestQuote.dstAmount,
       stepCount: bestQuote.steps?.length || 0,
     }
   } catch (error) {
-    return {
-      success: false,
-      quotes: [],
-      error: error instanceof Error ? error.message : 'Unknown error',
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return quoteFailure(new QuoteUnavailableError(message, { reason: 'network-error', ...pair }))
+  }
+}
+
+/**
+ * Sum the native value attached to a quote's steps (the LayerZero messaging fee)
+ */
+export function getQuoteNativeValue(quote: StargateQuote): bigint {
+  return quote.steps.reduce(
+    (total, step) => total + (step.transaction.value ? BigInt(step.transaction.value) : 0n),
+    0n
+  )
+}
+
+/**
+ * Order quotes by amount received, most first
+ *
+ * With a native price, quotes are ranked by the amount received (PYUSD at $1)
+ * minus the native fee in USD, so a route that delivers slightly more but
+ * costs more in native fees ranks lower. Without one, received amounts and
+ * native fees are in different units, so the native fee only breaks ties
+ * between quotes that deliver the same amount. The number of steps breaks
+ * any remaining tie. Gas isn't included; compare all-in costs with
+ * `quote --all --usd`.
+ */
+export function sortQuotesByReceived(quotes: StargateQuote[], nativePrice?: NativeUsdPrice): StargateQuote[] {
+  const netUsd = (quote: StargateQuote) => nativePrice
+    ? Number(formatUnits(BigInt(quote.dstAmount), PYUSD_DECIMALS))
+      - Number(formatUnits(getQuoteNativeValue(quote), nativePrice.decimals)) * nativePrice.usd
+    : 0
+
+  return [...quotes].sort((a, b) => {
+    const net = netUsd(b) - netUsd(a)
+    if (net !== 0) {
+      return net
+    }
+
+    const received = BigInt(b.dstAmount) - BigInt(a.dstAmount)
+    if (received !== 0n) {
+      return received > 0n ? 1 : -1
     }
+
+    const native = getQuoteNativeValue(a) - getQuoteNativeValue(b)
+    if (native !== 0n) {
+      return native > 0n ? 1 : -1
+    }
+
+    return a.steps.length - b.steps.length
+  })
+}
+
+/**
+ * Display name for a quote's route
+ */
+export function getQuoteRouteName(quote: StargateQuote): string {
+  return quote.route || 'default'
+}
+
+/**
+ * Pick a quote by route name or 1-based index in sorted order
+ *
+ * @param quotes - Sorted quotes (as returned by fetchStargateQuote)
+ * @param selector - Route name (case-insensitive) or index; the first (best ranked) quote if omitted
+ * @throws If no quote matches the selector
+ */
+export function selectQuote(quotes: StargateQuote[], selector?: string): StargateQuote {
+  if (quotes.length === 0) {
+    throw new Error('No routes available')
+  }
+  if (!selector) {
+    return quotes[0]
   }
+
+  const byName = quotes.find((quote) => getQuoteRouteName(quote).toLowerCase() === selector.toLowerCase())
+  if (byName) {
+    return byName
+  }
+
+  const index = Number(selector)
+  if (Number.isInteger(index) && index >= 1 && index <= quotes.length) {
+    return quotes[index - 1]
+  }
+
+  const available = quotes.map((quote, i) => `${i + 1}. ${getQuoteRouteName(quote)}`).join(', ')
+  throw new Error(`No route matches "${selector}" (available: ${available})`)
 }
 
 /**
@@ -200,12 +317,14 @@ export function calculateMinAmount(amount: string, slippagePercent: number): str
  * @param publicClient - Viem public client for waiting on confirmations
  * @param quote - The Stargate quote containing transaction steps
  * @param onStep - Optional callback for progress updates
+ * @param options - Execution options (e.g., step to start from)
  */
 export async function executeStargateTransfer(
   walletClient: WalletClient,
   publicClient: PublicClient,
   quote: StargateQuote,
-  onStep?: (stepIndex: number, stepType: string, status: 'pending' | 'confirmed') => void
+  onStep?: TransferStepCallback,
+  options: ExecuteTransferOptions = {}
 ): Promise<StargateTransferResult> {
   const txHashes: Hex[] = []
   let finalTxHash: Hex | undefined
@@ -219,39 +338,34 @@ export async function executeStargateTransfer(
   }
 
   try {
-    for (let i = 0; i < quote.steps.length; i++) {
+    for (let i = options.startStep ?? 0; i < quote.steps.length; i++) {
       const step = quote.steps[i]
       const tx = step.transaction
 
       onStep?.(i, step.type, 'pending')
 
-      // Build transaction params
-      const txParams: {
-        account: NonNullable<typeof walletClient.account>
-        to: Address
-        data: Hex
-        value?: bigint
-        chain: typeof walletClient.chain
-      } = {
-        account: walletClient.account!,
-        to: tx.to as Address, // EVM transactions always have `to`
-        data: tx.data as Hex, // EVM transactions have hex-encoded data
-        chain: walletClient.chain,
-      }
-
-      // Add value if present (for bridge transactions that pay native gas)
-      if (tx.value && tx.value !== '0') {
-        txParams.value = BigInt(tx.value)
-      }
-
-      // Send transaction
-      const hash = await walletClient.sendTransaction(txParams)
-      txHashes.push(hash)
-
-      // Wait for confirmation
-      await publicClient.waitForTransactionReceipt({ hash })
+      // Send and wait for confirmation, re-broadcasting with bumped fees if it gets stuck
+      const position = txHashes.length
+      const hash = await sendWithFees(
+        walletClient,
+        publicClient,
+        {
+          to: tx.to as Address, // EVM transactions always have `to`
+          data: tx.data as Hex, // EVM transactions have hex-encoded data
+          value: tx.value && tx.value !== '0' ? BigInt(tx.value) : undefined, // Bridge steps pay native gas
+        },
+        {
+          fees: options.fees,
+          autoBump: options.autoBump,
+          onSubmitted: (submitted) => {
+            txHashes[position] = submitted
+            onStep?.(i, step.type, 'submitted', submitted)
+          },
+        }
+      )
+      txHashes[position] = hash
 
-      onStep?.(i, step.type, 'confirmed')
+      onStep?.(i, step.type, 'confirmed', hash)
 
       // Track the bridge transaction for LayerZero lookup
       if (step.type === 'bridge') {
@@ -317,18 +431,20 @@ export async function isRouteSupported(
  * @param keypair - Solana keypair for signing
  * @param quote - The Stargate quote containing transaction steps
  * @param onStep - Optional callback for progress updates
+ * @param options - Execution options (e.g., step to start from)
  */
 export async function executeSolanaStargateTransfer(
   connection: Connection,
   keypair: Keypair,
   quote: StargateQuote,
-  onStep?: (stepIndex: number, stepType: string, status: 'pending' | 'confirmed') => void
+  onStep?: TransferStepCallback,
+  options: ExecuteTransferOptions = {}
 ): Promise<SolanaTransferResult> {
   const signatures: string[] = []
   let finalSignature: string | undefined
 
   try {
-    for (let i = 0; i < quote.steps.length; i++) {
+    for (let i = options.startStep ?? 0; i < quote.steps.length; i++) {
       const step = quote.steps[i]
 
       onStep?.(i, step.type, 'pending')
@@ -337,11 +453,12 @@ export async function executeSolanaStargateTransfer(
       const signature = await executeSolanaTransaction(
         connection,
         keypair,
-        step.transaction.data
+        step.transaction.data,
+        (submitted) => onStep?.(i, step.type, 'submitted', submitted)
       )
 
       signatures.push(signature)
-      onStep?.(i, step.type, 'confirmed')
+      onStep?.(i, step.type, 'confirmed', signature)
 
       // Track the bridge transaction for LayerZero lookup
       if (step.type === 'bridge') {
@@ -362,3 +479,63 @@ export async function executeSolanaStargateTransfer(
     }
   }
 }
+
+// ============================================================================
+// Tron Transfer Execution
+// ============================================================================
+
+/**
+ * Execute a Stargate transfer from Tron
+ *
+ * Tron steps come in EVM shape (contract address, hex calldata, call value)
+ * and are submitted as TriggerSmartContract transactions.
+ *
+ * @param tronWeb - TronWeb instance configured with the signing key
+ * @param quote - The Stargate quote containing transaction steps
+ * @param onStep - Optional callback for progress updates
+ * @param options - Execution options (e.g., step to start from)
+ */
+export async function executeTronStargateTransfer(
+  tronWeb: TronWeb,
+  quote: StargateQuote,
+  onStep?: TransferStepCallback,
+  options: ExecuteTransferOptions = {}
+): Promise<TronTransferResult> {
+  const txIds: string[] = []
+  let finalTxId: string | undefined
+
+  try {
+    for (let i = options.startStep ?? 0; i < quote.steps.length; i++) {
+      const step = quote.steps[i]
+
+      onStep?.(i, step.type, 'pending')
+
+      // Execute the Tron transaction and wait for it to be included in a block
+      const txId = await executeTronTransaction(
+        tronWeb,
+        step.transaction,
+        (submitted) => onStep?.(i, step.type, 'submitted', submitted)
+      )
+
+      txIds.push(txId)
+      onStep?.(i, step.type, 'confirmed', txId)
+
+      // Track the bridge transaction for LayerZero lookup
+      if (step.type === 'bridge') {
+        finalTxId = txId
+      }
+    }
+
+    return {
+      success: true,
+      txIds,
+      finalTxId: finalTxId || (txIds.length > 0 ? txIds[txIds.length - 1] : undefined),
+    }
+  } catch (error) {
+    return {
+      success: false,
+      txIds,
+      error: error instanceof Error ? error.message : 'Tron transaction failed',
+    }
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Tron client utilities for cross-chain transfers
+ *
+ * Handles Tron-specific transaction signing and submission.
+ */
+
+import { TronWeb } from 'tronweb'
+
+import { TransactionRevertedError } from './errors'
+
+// Default Tron RPC (TronGrid mainnet)
+const DEFAULT_TRON_RPC = 'https://api.trongrid.io'
+
+// Maximum TRX (in sun) a contract call may burn for energy/bandwidth
+const DEFAULT_FEE_LIMIT = 150_000_000
+
+// Confirmation polling (Tron produces a block every ~3 seconds)
+const CONFIRMATION_POLL_INTERVAL_MS = 3000
+const CONFIRMATION_MAX_ATTEMPTS = 40
+
+/**
+ * Normalize a Tron private key (TronWeb expects 64 hex chars without 0x prefix)
+ */
+export function parseTronPrivateKey(privateKey: string): string {
+  const hexKey = privateKey.trim().replace(/^0x/, '')
+
+  if (!/^[0-9a-fA-F]{64}$/.test(hexKey)) {
+    throw new Error('Invalid Tron private key: expected 32-byte hex (64 characters, optional 0x prefix).')
+  }
+
+  return hexKey
+}
+
+/**
+ * Create a TronWeb instance, optionally configured with a signing key
+ */
+export function createTronWeb(rpcUrl?: string, privateKey?: string): TronWeb {
+  return new TronWeb({
+    fullHost: rpcUrl || DEFAULT_TRON_RPC,
+    privateKey: privateKey ? parseTronPrivateKey(privateKey) : undefined,
+  })
+}
+
+/**
+ * Get the base58 (T...) address from a Tron private key
+ */
+export function getTronAddressFromPrivateKey(privateKey: string): string {
+  const address = TronWeb.address.fromPrivateKey(parseTronPrivateKey(privateKey))
+  if (!address) {
+    throw new Error('Invalid Tron private key: could not derive address')
+  }
+  return address
+}
+
+/**
+ * Check if a string looks like a Tron base58 address (T..., 34 chars)
+ */
+export function isTronAddress(address: string): boolean {
+  return address.startsWith('T') && TronWeb.isAddress(address)
+}
+
+/**
+ * Convert a Tron address to base58 format
+ *
+ * Supports:
+ * - Base58 (T...), returned as-is
+ * - Tron hex with 41 prefix
+ * - EVM-style 0x hex (20 bytes), as used in the Stargate chain config
+ */
+export function toTronBase58Address(address: string): string {
+  if (isTronAddress(address)) {
+    return address
+  }
+
+  if (/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return TronWeb.address.fromHex(`41${address.slice(2)}`)
+  }
+
+  if (/^41[0-9a-fA-F]{40}$/.test(address)) {
+    return TronWeb.address.fromHex(address)
+  }
+
+  throw new Error(`Invalid Tron address: ${address}`)
+}
+
+/**
+ * Wait for a Tron transaction to be included in a block
+ *
+ * Throws if the transaction is not found in time or the contract call failed.
+ */
+export async function waitForTronTransaction(tronWeb: TronWeb, txId: string): Promise<void> {
+  for (let attempt = 0; attempt < CONFIRMATION_MAX_ATTEMPTS; attempt++) {
+    const info = await tronWeb.trx.getTransactionInfo(txId)
+
+    // An empty object is returned until the transaction is included in a block
+    if (info && info.id) {
+      if (info.result === 'FAILED' || (info.receipt?.result && info.receipt.result !== 'SUCCESS')) {
+        const reason = info.resMessage ? TronWeb.toUtf8(info.resMessage) : info.receipt?.result
+        throw new TransactionRevertedError('tron', txId, reason || 'unknown error')
+      }
+      return
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, CONFIRMATION_POLL_INTERVAL_MS))
+  }
+
+  throw new Error(`Timed out waiting for Tron transaction ${txId} to confirm`)
+}
+
+/**
+ * Execute a Stargate transaction on Tron
+ *
+ * The Stargate API returns Tron steps in EVM shape (contract address, hex
+ * calldata, call value in sun). We build a TriggerSmartContract transaction
+ * from the raw calldata, sign, broadcast, and wait for confirmation.
+ */
+export async function executeTronTransaction(
+  tronWeb: TronWeb,
+  transaction: { to?: string; data: string; value?: string },
+  onSubmitted?: (txId: string) => void
+): Promise<string> {
+  const ownerAddress = tronWeb.defaultAddress.base58
+  if (!ownerAddress) {
+    throw new Error('TronWeb instance has no private key configured')
+  }
+
+  if (!transaction.to) {
+    throw new Error('Tron transaction is missing a contract address')
+  }
+
+  const contractAddress = toTronBase58Address(transaction.to)
+  const callValue = transaction.value ? Number(transaction.value) : 0
+
+  const { result, transaction: unsignedTx } = await tronWeb.transactionBuilder.triggerSmartContract(
+    contractAddress,
+    '',
+    {
+      input: transaction.data.replace(/^0x/, ''),
+      callValue,
+      feeLimit: DEFAULT_FEE_LIMIT,
+    },
+    [],
+    ownerAddress
+  )
+
+  if (!result?.result) {
+    throw new Error(`Failed to build Tron transaction: ${result?.message || 'unknown error'}`)
+  }
+
+  const signedTx = await tronWeb.trx.sign(unsignedTx)
+  const broadcast = await tronWeb.trx.sendRawTransaction(signedTx)
+
+  if (!broadcast.result) {
+    const message = broadcast.message ? TronWeb.toUtf8(broadcast.message) : broadcast.code
+    throw new Error(`Tron broadcast failed: ${message || 'unknown error'}`)
+  }
+
+  onSubmitted?.(broadcast.txid)
+
+  await waitForTronTransaction(tronWeb, broadcast.txid)
+
+  return broadcast.txid
+}
+
+/**
+ * Get TRC-20 token balance for a Tron address
+ *
+ * @param rpcUrl - Tron full node URL
+ * @param walletAddress - Owner wallet address (base58)
+ * @param tokenAddress - TRC-20 contract address (base58 or hex)
+ * @returns Balance in token base units
+ */
+export async function getTronTokenBalance(
+  rpcUrl: string,
+  walletAddress: string,
+  tokenAddress: string
+): Promise<bigint> {
+  const tronWeb = createTronWeb(rpcUrl)
+  const owner = toTronBase58Address(walletAddress)
+
+  const { result, constant_result: constantResult } = await tronWeb.transactionBuilder.triggerConstantContract(
+    toTronBase58Address(tokenAddress),
+    'balanceOf(address)',
+    {},
+    [{ type: 'address', value: owner }],
+    owner
+  )
+
+  if (!result?.result || !constantResult?.[0]) {
+    throw new Error(`balanceOf call failed: ${result?.message || 'empty result'}`)
+  }
+
+  return BigInt(`0x${constantResult[0]}`)
+}
@@ -0,0 +1,91 @@
+/**
+ * Chain-agnostic transaction status lookups
+ *
+ * Dispatches to the EVM, Solana or Tron client based on the chain type.
+ */
+
+import { TransactionNotFoundError, TransactionReceiptNotFoundError } from 'viem'
+
+import { createPublicClientForChain } from './client'
+import { createSolanaConnection } from './solana-client'
+import { createTronWeb } from './tron-client'
+import type { ChainConfig } from '../types/index'
+
+// 'pending' means the transaction is unknown or not yet included in a block;
+// 'dropped' means an EVM transaction can never be included (the node doesn't
+// know it, or another transaction used its nonce)
+export type OnChainTxStatus = 'confirmed' | 'failed' | 'pending' | 'dropped'
+
+/**
+ * Tell a pending EVM transaction from one that was dropped or replaced
+ */
+async function getUnminedEvmStatus(
+  client: ReturnType<typeof createPublicClientForChain>,
+  hash: `0x${string}`
+): Promise<OnChainTxStatus> {
+  let transaction: Awaited<ReturnType<typeof client.getTransaction>>
+  try {
+    transaction = await client.getTransaction({ hash })
+  } catch (error) {
+    if (error instanceof TransactionNotFoundError) {
+      return 'dropped'
+    }
+    throw error
+  }
+
+  // Mined since the receipt lookup
+  if (transaction.blockNumber !== null) {
+    const receipt = await client.getTransactionReceipt({ hash })
+    return receipt.status === 'success' ? 'confirmed' : 'failed'
+  }
+
+  // Once the account's mined nonce passes this one, another transaction took its place
+  const minedNonce = await client.getTransactionCount({ address: transaction.from, blockTag: 'latest' })
+  return minedNonce > transaction.nonce ? 'dropped' : 'pending'
+}
+
+/**
+ * Check whether a transaction has been confirmed on its source chain
+ *
+ * @param chainConfig - Chain the transaction was sent on
+ * @param txHash - Transaction hash (EVM), signature (Solana) or ID (Tron)
+ */
+export async function getTransactionStatus(chainConfig: ChainConfig, txHash: string): Promise<OnChainTxStatus> {
+  switch (chainConfig.chainType) {
+    case 'solana': {
+      const connection = createSolanaConnection(chainConfig.rpcUrl)
+      const { value } = await connection.getSignatureStatus(txHash, { searchTransactionHistory: true })
+      if (!value) {
+        return 'pending'
+      }
+      if (value.err) {
+        return 'failed'
+      }
+      return value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized'
+        ? 'confirmed'
+        : 'pending'
+    }
+    case 'tron': {
+      const tronWeb = createTronWeb(chainConfig.rpcUrl)
+      const info = await tronWeb.trx.getTransactionInfo(txHash)
+      if (!info || !info.id) {
+        return 'pending'
+      }
+      return info.result === 'FAILED' || (info.receipt?.result && info.receipt.result !== 'SUCCESS')
+        ? 'failed'
+        : 'confirmed'
+    }
+    default: {
+      const client = createPublicClientForChain(chainConfig)
+      try {
+        const receipt = await client.getTransactionReceipt({ hash: txHash as `0x${string}` })
+        return receipt.status === 'success' ? 'confirmed' : 'failed'
+      } catch (error) {
+        if (error instanceof TransactionReceiptNotFoundError) {
+          return getUnminedEvmStatus(client, txHash as `0x${string}`)
+        }
+        throw error
+      }
+    }
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * User config file with named profiles
+ *
+ * <app dir>/config.json holds named profiles of defaults, so repeated flags
+ * and RPC environment variables can be set once. The profile comes from
+ * --profile, then PYUSD_LZ_PROFILE, then "default". Every setting follows the
+ * same precedence: flag > environment > profile > built-in default. The same
+ * file holds the address book (see contacts.ts), shared by every profile.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { CommandUnknownOpts } from '@commander-js/extra-typings'
+import { isAddress } from 'viem'
+
+import { getChainEnvVar } from './chains'
+import { InvalidConfigError, InvalidInputError } from './errors'
+import { loadKeystore } from './keystore'
+import { getAppDir } from './paths'
+import { MNEMONIC_ENV_VAR, SIGNER_ENV_VARS } from './signers'
+import { isSolanaAddress } from './solana-client'
+import { isTronAddress } from './tron-client'
+import type { ChainType } from '../types/index'
+
+export const PROFILE_ENV_VAR = 'PYUSD_LZ_PROFILE'
+export const DEFAULT_PROFILE = 'default'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Profile {
+  sender?: Partial<Record<ChainType, string>> // Address to quote and check balances for when no key is configured
+  recipient?: Partial<Record<ChainType, string>> // Default --to, by the destination chain's type
+  slippage?: number // Default --slippage in percent
+  rpc?: Record<string, string> // RPC URL by chain key (RPC_<CHAIN> still wins)
+  keystore?: string[] // Default --keystore names (a signer key in the environment still wins)
+  account?: number // Default --account (HD account index derived from MNEMONIC)
+  confirm?: boolean // Ask before sending (transfer: off by default, transfer-batch: on by default)
+}
+
+export type Contact = Partial<Record<ChainType, string>> // Address per chain type
+
+export interface UserConfig {
+  profiles: Record<string, Profile>
+  contacts?: Record<string, Contact>
+}
+
+/**
+ * Settable profile keys, for help and error messages
+ */
+export const PROFILE_KEYS = [
+  'sender.<evm|solana|tron>',
+  'recipient.<evm|solana|tron>',
+  'slippage',
+  'rpc.<chain>',
+  'keystore',
+  'account',
+  'confirm',
+] as const
+
+const CHAIN_TYPES: ChainType[] = ['evm', 'solana', 'tron']
+
+// ============================================================================
+// Config File
+// ============================================================================
+
+export function getUserConfigPath(): string {
+  return join(getAppDir(), 'config.json')
+}
+
+/**
+ * Load the user config (empty if the file doesn't exist)
+ *
+ * @throws InvalidConfigError If the file can't be parsed
+ */
+export function loadUserConfig(): UserConfig {
+  const path = getUserConfigPath()
+  if (!existsSync(path)) {
+    return { profiles: {} }
+  }
+
+  let config: UserConfig
+  try {
+    config = JSON.parse(readFileSync(path, 'utf-8')) as UserConfig
+  } catch (error) {
+    throw new InvalidConfigError(path, error instanceof Error ? error.message : String(error))
+  }
+  if (!config || typeof config.profiles !== 'object') {
+    throw new InvalidConfigError(path, 'missing "profiles" object')
+  }
+  return config
+}
+
+export function saveUserConfig(config: UserConfig): void {
+  mkdirSync(getAppDir(), { recursive: true })
+  writeFileSync(getUserConfigPath(), JSON.stringify(config, null, 2) + '\n')
+}
+
+/**
+ * Name of the selected profile (--profile sets PYUSD_LZ_PROFILE)
+ */
+export function getProfileName(): string {
+  return process.env[PROFILE_ENV_VAR] || DEFAULT_PROFILE
+}
+
+/**
+ * Load the selected profile
+ *
+ * The default profile may be missing (no defaults); a named one must exist.
+ *
+ * @throws InvalidInputError If a named profile doesn't exist
+ */
+export function getActiveProfile(): Profile {
+  const name = getProfileName()
+  const profile = loadUserConfig().profiles[name]
+  if (!profile && name !== DEFAULT_PROFILE) {
+    throw new InvalidInputError(
+      `Profile "${name}" not found in ${getUserConfigPath()}`,
+      { profile: name },
+      `Create it with: pyusd-lz --profile ${name} config set <key> <value>`
+    )
+  }
+  return profile ?? {}
+}
+
+/**
+ * Default recipient for a destination chain type from the selected profile
+ */
+export function getProfileRecipient(chainType: ChainType): string | undefined {
+  return getActiveProfile().recipient?.[chainType]
+}
+
+// ============================================================================
+// Profile Keys
+// ============================================================================
+
+/**
+ * Split a key such as "rpc.arbitrum" into its field and chain
+ *
+ * @throws InvalidInputError If the key isn't a profile key
+ */
+function parseKey(key: string): { field: keyof Profile; subkey?: string } {
+  const [field, subkey, ...rest] = key.split('.')
+  const mapField = field === 'sender' || field === 'recipient' || field === 'rpc'
+
+  if (rest.length > 0 || (mapField && !subkey) || (!mapField && subkey !== undefined)
+    || !['sender', 'recipient', 'slippage', 'rpc', 'keystore', 'account', 'confirm'].includes(field)) {
+    throw new InvalidInputError(`Unknown config key "${key}"`, { key }, `Keys: ${PROFILE_KEYS.join(', ')}`)
+  }
+  if ((field === 'sender' || field === 'recipient') && !CHAIN_TYPES.includes(subkey as ChainType)) {
+    throw new InvalidInputError(`Unknown chain type "${subkey}" in "${key}"`, { key }, `Chain types: ${CHAIN_TYPES.join(', ')}`)
+  }
+  return { field: field as keyof Profile, subkey: field === 'rpc' ? subkey.toLowerCase() : subkey }
+}
+
+/**
+ * Check that an address is valid for a chain type's address format
+ */
+export function isValidAddressForChainType(chainType: ChainType, address: string): boolean {
+  if (chainType === 'solana') {
+    return isSolanaAddress(address)
+  }
+  if (chainType === 'tron') {
+    return isTronAddress(address)
+  }
+  return isAddress(address)
+}
+
+/**
+ * Read a profile key
+ *
+ * @throws InvalidInputError If the key isn't a profile key
+ */
+export function getProfileValue(profile: Profile, key: string): unknown {
+  const { field, subkey } = parseKey(key)
+  const value = profile[field]
+  return subkey ? (value as Record<string, string> | undefined)?.[subkey] : value
+}
+
+/**
+ * Validate and set a profile key from its command-line form
+ *
+ * keystore takes a comma-separated list of names.
+ *
+ * @throws InvalidInputError If the key or value isn't valid
+ */
+export function setProfileValue(profile: Profile, key: string, value: string): void {
+  const { field, subkey } = parseKey(key)
+  const invalid = (expected: string) => new InvalidInputError(`Invalid value "${value}" for ${key}: expected ${expected}`, { key, value })
+
+  switch (field) {
+    case 'sender':
+    case 'recipient': {
+      const chainType = subkey as ChainType
+      if (!isValidAddressForChainType(chainType, value)) {
+        throw invalid(`a valid ${chainType} address`)
+      }
+      profile[field] = { ...profile[field], [chainType]: value }
+      break
+    }
+    case 'rpc':
+      if (!URL.canParse(value)) {
+        throw invalid('a URL')
+      }
+      profile.rpc = { ...profile.rpc, [subkey!]: value }
+      break
+    case 'slippage': {
+      const slippage = Number(value)
+      if (value.trim() === '' || !Number.isFinite(slippage) || slippage < 0 || slippage >= 100) {
+        throw invalid('a percentage between 0 and 100')
+      }
+      profile.slippage = slippage
+      break
+    }
+    case 'keystore':
+      profile.keystore = value.split(',').map((name) => name.trim()).filter(Boolean)
+      break
+    case 'account': {
+      const account = Number(value)
+      if (!Number.isInteger(account) || account < 0 || account >= 2 ** 31) {
+        throw invalid('a non-negative integer')
+      }
+      profile.account = account
+      break
+    }
+    case 'confirm':
+      if (value !== 'true' && value !== 'false') {
+        throw invalid('true or false')
+      }
+      profile.confirm = value === 'true'
+      break
+  }
+}
+
+/**
+ * Remove a profile key
+ *
+ * @returns False if the key wasn't set
+ * @throws InvalidInputError If the key isn't a profile key
+ */
+export function unsetProfileValue(profile: Profile, key: string): boolean {
+  const { field, subkey } = parseKey(key)
+  if (getProfileValue(profile, key) === undefined) {
+    return false
+  }
+
+  if (subkey) {
+    const map = { ...(profile[field] as Record<string, string>) }
+    delete map[subkey]
+    if (Object.keys(map).length > 0) {
+      Object.assign(profile, { [field]: map })
+      return true
+    }
+  }
+  delete profile[field]
+  return true
+}
+
+// ============================================================================
+// Applying Defaults
+// ============================================================================
+
+/**
+ * Check whether a signer key for the chain type is set in the environment
+ */
+function hasEnvSigner(chainType: ChainType): boolean {
+  return Boolean(process.env[SIGNER_ENV_VARS[chainType]] || process.env[MNEMONIC_ENV_VAR])
+}
+
+/**
+ * Apply a profile's defaults to the command about to run
+ *
+ * RPC URLs are applied as RPC_<CHAIN> variables unless already set. Options
+ * the command has and the user didn't pass (--slippage, --keystore,
+ * --account) take the profile's value.
+ */
+export function applyProfileDefaults(command: CommandUnknownOpts, profile: Profile): void {
+  for (const [chainKey, rpcUrl] of Object.entries(profile.rpc ?? {})) {
+    process.env[getChainEnvVar('RPC', chainKey)] ??= rpcUrl
+  }
+
+  const defaults: Record<string, () => unknown> = {
+    slippage: () => profile.slippage?.toString(),
+    account: () => profile.account,
+    keystore: () => {
+      const names = profile.keystore?.filter((name) => !hasEnvSigner(loadKeystore(name).entry.chainType))
+      return names?.length ? names : undefined
+    },
+  }
+
+  for (const [key, getValue] of Object.entries(defaults)) {
+    const source = command.getOptionValueSource(key)
+    if (!command.options.some((option) => option.attributeName() === key) || (source && source !== 'default')) {
+      continue
+    }
+    const value = getValue()
+    if (value !== undefined) {
+      command.setOptionValueWithSource(key, value, 'config')
+    }
+  }
+}
@@ -16,4 +16,6 @@ export interface ChainConfig {
     decimals: number
   }
   rpcUrl: string
+  eid?: number // LayerZero V2 endpoint ID (for direct OFT sends)
+  oftAddress?: Address // OFT / OFT adapter contract (for direct OFT sends)
 }
@@ -0,0 +1,168 @@
+import { getAllInUsd, type QuoteCostBreakdown } from '../lib/costs'
+import type { RouteLegQuote } from '../lib/routing'
+import type { QuoteSimulation } from '../lib/simulation'
+import { getQuoteNativeValue, getQuoteRouteName, type StargateQuote } from '../lib/stargate'
+import type { ChainConfig } from '../types/index'
+import { formatAmount, formatNativeFee } from './format'
+
+/**
+ * Print a multi-leg route plan with per-leg amounts and total fees
+ */
+export function printRoutePlan(route: { legs: RouteLegQuote[] }): void {
+  const firstLeg = route.legs[0]
+  const lastLeg = route.legs[route.legs.length - 1]
+  const hubNames = route.legs.slice(1).map((leg) => leg.srcConfig.name)
+
+  console.log(`Route Plan (${route.legs.length} legs via ${hubNames.join(', ')})`)
+  console.log('─'.repeat(50))
+
+  for (let i = 0; i < route.legs.length; i++) {
+    const leg = route.legs[i]
+    const nativeValue = getQuoteNativeValue(leg.quote)
+    const nativeNote = nativeValue > 0n
+      ? ` + ${formatNativeFee(nativeValue, leg.srcConfig.nativeCurrency.symbol, leg.srcConfig.nativeCurrency.decimals)}`
+      : ''
+
+    console.log(`Leg ${i + 1}:  ${leg.srcConfig.name} → ${leg.dstConfig.name}`)
+    console.log(`        Send ${formatAmount(BigInt(leg.quote.srcAmount))} ${leg.srcConfig.symbol}${nativeNote}`)
+    console.log(`        Receive ${formatAmount(BigInt(leg.quote.dstAmount))} ${leg.dstConfig.symbol} (${leg.quote.steps.length} step(s))`)
+  }
+
+  console.log('')
+
+  const srcAmount = BigInt(firstLeg.quote.srcAmount)
+  const dstAmount = BigInt(lastLeg.quote.dstAmount)
+  const feeAmount = srcAmount - dstAmount
+
+  console.log(`Total Send:      ${formatAmount(srcAmount)} ${firstLeg.srcConfig.symbol}`)
+  console.log(`Total Receive:   ${formatAmount(dstAmount)} ${lastLeg.dstConfig.symbol}`)
+
+  if (feeAmount > 0n) {
+    const feePercent = (Number(feeAmount) / Number(srcAmount)) * 100
+    console.log(`Protocol Fees:   ${formatAmount(feeAmount)} ${firstLeg.srcConfig.symbol} (${feePercent.toFixed(3)}%)`)
+  } else {
+    console.log(`Protocol Fees:   0 ${firstLeg.srcConfig.symbol} (zero fee)`)
+  }
+
+  const nativeFees = route.legs
+    .map((leg) => ({ leg, value: getQuoteNativeValue(leg.quote) }))
+    .filter(({ value }) => value > 0n)
+    .map(({ leg, value }) =>
+      `${formatNativeFee(value, leg.srcConfig.nativeCurrency.symbol, leg.srcConfig.nativeCurrency.decimals)} on ${leg.srcConfig.name}`
+    )
+
+  console.log(`Native Fees:     ${nativeFees.length > 0 ? nativeFees.join(' + ') : 'none'}`)
+  console.log('')
+}
+
+/**
+ * Print a comparison table of every route Stargate returned, in ranked order
+ *
+ * @param nativeUsdPrice - Native price the routes were ranked with, if any
+ */
+export function printQuoteComparison(
+  quotes: StargateQuote[],
+  srcConfig: ChainConfig,
+  dstConfig: ChainConfig,
+  costs?: QuoteCostBreakdown[],
+  nativeUsdPrice?: number
+): void {
+  const { symbol: nativeSymbol, decimals: nativeDecimals } = srcConfig.nativeCurrency
+  const showUsd = costs?.some((cost) => cost.totalNativeUsd !== undefined) ?? false
+
+  console.log(`Available Routes (${quotes.length})`)
+  console.log('─'.repeat(showUsd ? 103 : 90))
+  console.log(
+    `${'#'.padEnd(3)} ${'Route'.padEnd(24)} ${`Receive (${dstConfig.symbol})`.padStart(18)} ${`Fee (${srcConfig.symbol})`.padStart(14)} ${'Steps'.padStart(5)} ${'Native'.padStart(20)}${showUsd ? ` ${'All-in USD'.padStart(12)}` : ''}`
+  )
+
+  for (let i = 0; i < quotes.length; i++) {
+    const quote = quotes[i]
+    const fee = BigInt(quote.srcAmount) - BigInt(quote.dstAmount)
+    // With a cost breakdown, native cost includes gas as well as the messaging fee
+    const cost = costs?.[i]
+    const nativeValue = cost ? cost.totalNative : getQuoteNativeValue(quote)
+    const native = nativeValue > 0n
+      ? `${cost && !cost.complete ? '>' : ''}${formatNativeFee(nativeValue, nativeSymbol, nativeDecimals)}`
+      : '-'
+    const allInUsd = cost ? getAllInUsd(cost, srcConfig.decimals) : undefined
+    const usd = showUsd ? ` ${(allInUsd !== undefined ? `$${allInUsd.toFixed(2)}` : 'n/a').padStart(12)}` : ''
+
+    console.log(
+      `${String(i + 1).padEnd(3)} ${getQuoteRouteName(quote).padEnd(24)} ${formatAmount(BigInt(quote.dstAmount)).padStart(18)} ${formatAmount(fee).padStart(14)} ${String(quote.steps.length).padStart(5)} ${native.padStart(20)}${usd}`
+    )
+  }
+
+  console.log('')
+  if (nativeUsdPrice !== undefined) {
+    console.log(`Routes are ordered by amount received minus native fee (${nativeSymbol} at $${nativeUsdPrice.toFixed(2)}). #1 is used by default.`)
+  } else {
+    console.log('Routes are ordered by amount received; native fee only breaks ties (no price available). #1 is used by default.')
+  }
+  console.log('Pick another with: transfer ... --route <name|#>')
+  console.log('')
+}
+
+/**
+ * Print gas per step, messaging fee and total native cost for a quote
+ */
+export function printCostBreakdown(breakdown: QuoteCostBreakdown, srcConfig: ChainConfig, showUsd = false): void {
+  const { symbol, decimals } = srcConfig.nativeCurrency
+
+  console.log('Cost Breakdown')
+  console.log('─'.repeat(50))
+
+  if (srcConfig.chainType !== 'evm') {
+    console.log(`Network Fees:    not estimated for ${srcConfig.name}`)
+  }
+
+  for (const step of breakdown.steps) {
+    const label = `Gas (${step.type}):`.padEnd(17)
+    if (step.gas === undefined) {
+      console.log(`${label}n/a (can't be estimated until earlier steps are mined)`)
+    } else {
+      console.log(`${label}${step.gas.toLocaleString()} gas ≈ ${formatNativeFee(step.gas * breakdown.gasPrice!, symbol, decimals)}`)
+    }
+  }
+
+  console.log(`Messaging Fee:   ${formatNativeFee(breakdown.messagingFee, symbol, decimals)}`)
+
+  const usd = breakdown.totalNativeUsd !== undefined ? ` (≈ $${breakdown.totalNativeUsd.toFixed(2)})` : ''
+  const partial = breakdown.complete ? '' : ' + unestimated gas'
+  console.log(`Total Native:    ${formatNativeFee(breakdown.totalNative, symbol, decimals)}${partial}${usd}`)
+
+  const allInUsd = getAllInUsd(breakdown, srcConfig.decimals)
+  if (allInUsd !== undefined) {
+    console.log(`All-in (USD):    ≈ $${allInUsd.toFixed(2)} (protocol fee at $1/${srcConfig.symbol} + native costs)`)
+  } else if (showUsd) {
+    console.log(`All-in (USD):    n/a (no current Chainlink price for ${symbol})`)
+  }
+
+  console.log('')
+}
+
+/**
+ * Print the result of simulating a quote's steps
+ */
+export function printSimulation(simulation: QuoteSimulation): void {
+  console.log(`Simulation (${simulation.method})`)
+  console.log('─'.repeat(50))
+
+  for (let i = 0; i < simulation.steps.length; i++) {
+    const step = simulation.steps[i]
+    const usage = step.gasUsed !== undefined
+      ? `${step.gasUsed.toLocaleString()} gas`
+      : step.computeUnits !== undefined ? `${step.computeUnits.toLocaleString()} compute units` : ''
+    const outcome = step.success ? usage : `failed: ${step.error}`
+
+    console.log(`${step.success ? '✓' : '✗'} ${i + 1}. ${step.type.padEnd(10)}${outcome}`)
+    if (step.note) {
+      console.log(`     Note: ${step.note}`)
+    }
+    for (const line of step.logs) {
+      console.log(`     ${line}`)
+    }
+  }
+
+  console.log('')
+}
@@ -20,13 +20,42 @@ export function formatAmount(amount: bigint): string {
 /**
  * Format a native fee (ETH, etc.) with symbol
  */
-export function formatNativeFee(feeWei: bigint, symbol: string): string {
-  const formatted = formatUnits(feeWei, 18)
+export function formatNativeFee(feeWei: bigint, symbol: string, decimals = 18): string {
+  const value = Number.parseFloat(formatUnits(feeWei, decimals))
   // Show up to 6 decimal places, trimming trailing zeros
-  const trimmed = Number.parseFloat(formatted).toFixed(6).replace(/\.?0+$/, '')
+  const trimmed = value.toFixed(6).replace(/\.?0+$/, '')
+  // Tiny amounts (e.g. L2 gas) would round to 0, so show 2 significant digits instead
+  if (trimmed === '0' && value > 0) {
+    return `${value.toLocaleString('en-US', { maximumSignificantDigits: 2 })} ${symbol}`
+  }
   return `${trimmed} ${symbol}`
 }
 
+/**
+ * Format a LayerZero message status with an indicator
+ */
+export function formatStatus(status: string): string {
+  const statusIndicators: Record<string, string> = {
+    DELIVERED: '✓ DELIVERED',
+    INFLIGHT: '⏳ INFLIGHT',
+    CONFIRMING: '⏳ CONFIRMING',
+    FAILED: '✗ FAILED',
+    BLOCKED: '⚠ BLOCKED',
+    PAYLOAD_STORED: '📦 PAYLOAD_STORED',
+  }
+  return statusIndicators[status] || status
+}
+
+/**
+ * Format a duration in milliseconds as e.g. "3m 12s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`
+}
+
 /**
  * Truncate address for display
  */
@@ -0,0 +1,82 @@
+/**
+ * Machine-readable output for the global --json flag
+ *
+ * In JSON mode every command writes exactly one document to stdout:
+ * `{ "ok": true, "data": ... }` on success, or
+ * `{ "ok": false, "error": { "code", "message", "hint", "context" } }` on
+ * failure. The usual
+ * human-readable progress output moves to stderr so stdout stays parseable.
+ * Bigints (token amounts, fees, gas) are written as base-unit strings.
+ */
+
+import { type ErrorCode, EXIT_CODES, PyusdError } from '../lib/errors'
+
+let jsonOutput = false
+
+/**
+ * Switch to JSON mode: console.log output is sent to stderr from now on
+ */
+export function enableJsonOutput(): void {
+  jsonOutput = true
+  console.log = console.error
+}
+
+export function isJsonOutput(): boolean {
+  return jsonOutput
+}
+
+/**
+ * Serialize a value as JSON, writing bigints as decimal strings
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, field) => (typeof field === 'bigint' ? field.toString() : field), 2)
+}
+
+/**
+ * Write a command's result document (JSON mode only)
+ */
+export function printJsonResult(data: unknown): void {
+  if (jsonOutput) {
+    process.stdout.write(`${toJson({ ok: true, data })}\n`)
+  }
+}
+
+/**
+ * Report an error and exit with the code's exit status
+ *
+ * @param code - Error code, mapped to the exit status by EXIT_CODES
+ * @param error - Message or error to report (a PyusdError's context is included in JSON mode)
+ * @param hint - Extra guidance printed below the error
+ */
+export function exitWithError(code: ErrorCode, error: unknown, hint?: string): never {
+  const message = error instanceof Error ? error.message : String(error)
+  const context = error instanceof PyusdError ? error.context : undefined
+
+  if (jsonOutput) {
+    process.stdout.write(`${toJson({ ok: false, error: { code, message, hint, context } })}\n`)
+  } else {
+    console.error(`Error: ${message}`)
+    if (hint) {
+      console.error(hint)
+    }
+  }
+
+  process.exit(EXIT_CODES[code])
+}
+
+/**
+ * Exit for a caught error
+ *
+ * Typed library errors (PyusdError) keep their own code and hint; anything
+ * else is reported with the fallback code.
+ *
+ * @param prefix - Prefix for the message of untyped errors
+ */
+export function exitWithCaughtError(error: unknown, fallback: ErrorCode, prefix?: string): never {
+  if (error instanceof PyusdError) {
+    exitWithError(error.code, error, error.hint)
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  exitWithError(fallback, prefix ? `${prefix}: ${message}` : message)
+}